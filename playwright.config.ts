@@ -0,0 +1,12 @@
+import { defineConfig } from '@playwright/test';
+
+// Replays recorded fixtures (tests/harness.ts) and scrapes the local simulator
+// (tests/simulator.ts); nothing here reaches Facebook.
+export default defineConfig({
+  testDir: 'tests',
+  // A full replay scrolls through the recorded run, which takes minutes
+  timeout: 5 * 60_000,
+  workers: 1,
+  reporter: process.env.CI ? 'list' : 'line',
+  use: { browserName: 'chromium' },
+});
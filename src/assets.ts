@@ -0,0 +1,260 @@
+import { createHash, createHmac, randomBytes } from 'crypto';
+import { createReadStream, existsSync } from 'fs';
+import { mkdir, rename, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import { describeImage, describeVideo, extractKeyframes, perceptualHash } from './media';
+import { getAsset, getAssetMetadata, recordAsset, recordAssetMetadata, type StoredAsset } from './store';
+import type { AdAsset, ArchivedFile, MediaMetadata, ScrapeResult } from './types';
+
+// --- Creative archive ---
+// fbcdn URLs are signed and expire within days, so stored results soon point
+// at dead links. With `archiveAssets`, every image, video and poster is
+// downloaded into a content-addressed store (a local directory, or an
+// S3-compatible bucket such as MinIO) and the ad gets a stable URL for it,
+// plus media metadata read from the file (see media.ts).
+
+const ASSET_BACKEND: StoredAsset['backend'] = process.env.ASSET_BACKEND === 's3' ? 's3' : 'local';
+const ASSET_DIR = process.env.ASSET_DIR || 'data/assets';
+/** Prefix for archive URLs; empty means relative `/assets/<hash>` URLs served by this API */
+const ASSET_PUBLIC_BASE_URL = (process.env.ASSET_PUBLIC_BASE_URL || '').replace(/\/$/, '');
+const ASSET_MAX_BYTES = Number(process.env.ASSET_MAX_BYTES) || 200 * 1024 * 1024;
+const ASSET_DOWNLOAD_TIMEOUT_MS = Number(process.env.ASSET_DOWNLOAD_TIMEOUT_MS) || 60_000;
+const ASSET_CONCURRENCY = Number(process.env.ASSET_CONCURRENCY) || 4;
+
+/** Default for requests that don't pass `archiveAssets` (scheduled runs included). */
+export const ARCHIVE_ASSETS_DEFAULT = process.env.ARCHIVE_ASSETS === 'true';
+
+const S3_ENDPOINT = (process.env.S3_ENDPOINT || 'http://localhost:9000').replace(/\/$/, '');
+const S3_BUCKET = process.env.S3_BUCKET || 'ad-creatives';
+const S3_REGION = process.env.S3_REGION || 'us-east-1';
+const S3_ACCESS_KEY_ID = process.env.S3_ACCESS_KEY_ID || '';
+const S3_SECRET_ACCESS_KEY = process.env.S3_SECRET_ACCESS_KEY || '';
+
+export const ASSET_HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+// --- Backends ---
+
+function localPath(sha256: string): string {
+  return join(ASSET_DIR, sha256.slice(0, 2), sha256);
+}
+
+async function writeLocal(sha256: string, data: Buffer): Promise<void> {
+  const path = localPath(sha256);
+  if (existsSync(path)) return;
+  await mkdir(join(ASSET_DIR, sha256.slice(0, 2)), { recursive: true });
+  // Write then rename so a crash never leaves a truncated file under a valid hash
+  const tmp = `${path}.${randomBytes(6).toString('hex')}.tmp`;
+  await writeFile(tmp, data);
+  await rename(tmp, path);
+}
+
+function sha256Hex(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/** Path-style request signed with AWS Signature V4, which MinIO and most S3 clones accept. */
+async function s3Request(method: 'GET' | 'PUT' | 'HEAD', key: string, body?: Buffer, contentType?: string): Promise<Response> {
+  const url = new URL(`${S3_ENDPOINT}/${S3_BUCKET}/${key}`);
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256Hex(body ?? '');
+
+  const headers: Record<string, string> = {
+    host: url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+  if (contentType) headers['content-type'] = contentType;
+
+  const signedHeaders = Object.keys(headers).sort();
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    '',
+    ...signedHeaders.map(name => `${name}:${headers[name]}`),
+    '',
+    signedHeaders.join(';'),
+    payloadHash,
+  ].join('\n');
+  const scope = `${dateStamp}/${S3_REGION}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${S3_SECRET_ACCESS_KEY}`, dateStamp), S3_REGION), 's3'), 'aws4_request');
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  // fetch derives Host from the URL and refuses to have it set
+  const sendHeaders: Record<string, string> = { ...headers };
+  delete sendHeaders.host;
+  return fetch(url, {
+    method,
+    headers: {
+      ...sendHeaders,
+      authorization: `AWS4-HMAC-SHA256 Credential=${S3_ACCESS_KEY_ID}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+    },
+    body: body ? new Uint8Array(body) : undefined,
+    signal: AbortSignal.timeout(ASSET_DOWNLOAD_TIMEOUT_MS),
+  });
+}
+
+async function writeS3(sha256: string, data: Buffer, mimeType: string): Promise<void> {
+  const head = await s3Request('HEAD', sha256);
+  if (head.ok) return;
+  const response = await s3Request('PUT', sha256, data, mimeType);
+  if (!response.ok) throw new Error(`S3 upload failed with HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`);
+}
+
+/** Opens an archived file for reading, or returns null when the backend doesn't have it. */
+export async function openAsset(asset: StoredAsset): Promise<Readable | null> {
+  if (asset.backend === 'local') {
+    const path = localPath(asset.sha256);
+    return existsSync(path) ? createReadStream(path) : null;
+  }
+  const response = await s3Request('GET', asset.sha256);
+  if (!response.ok || !response.body) return null;
+  // Streamed through rather than buffered: videos run to tens of megabytes
+  return Readable.fromWeb(response.body as WebReadableStream<Uint8Array>);
+}
+
+// --- Archiving ---
+
+export function archiveUrl(sha256: string): string {
+  return `${ASSET_PUBLIC_BASE_URL}/assets/${sha256}`;
+}
+
+/** Writes bytes into the archive. Identical content is only ever stored once. */
+async function storeBytes(data: Buffer, mimeType: string): Promise<ArchivedFile> {
+  const sha256 = sha256Hex(data);
+  const existing = getAsset(sha256);
+  if (!existing) {
+    if (ASSET_BACKEND === 's3') await writeS3(sha256, data, mimeType);
+    else await writeLocal(sha256, data);
+    recordAsset({ sha256, mimeType, size: data.length, backend: ASSET_BACKEND });
+  }
+  return { url: archiveUrl(sha256), sha256, mimeType: existing?.mimeType ?? mimeType, size: data.length };
+}
+
+/** Downloads one URL into the archive, returning the bytes too so they can be probed. */
+async function archiveFile(url: string): Promise<{ file: ArchivedFile; data: Buffer }> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(ASSET_DOWNLOAD_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > ASSET_MAX_BYTES) throw new Error(`${declared} bytes exceeds ASSET_MAX_BYTES`);
+
+  const data = Buffer.from(await response.arrayBuffer());
+  if (data.length > ASSET_MAX_BYTES) throw new Error(`${data.length} bytes exceeds ASSET_MAX_BYTES`);
+  const mimeType = (response.headers.get('content-type') || 'application/octet-stream').split(';')[0].trim();
+  return { file: await storeBytes(data, mimeType), data };
+}
+
+/** Probes an archived file, reusing the stored result when this content was seen before. */
+async function describeFile(file: ArchivedFile, data: Buffer, type: AdAsset['type']): Promise<MediaMetadata> {
+  const cached = getAssetMetadata(file.sha256);
+  // Entries from before hashing existed lack perceptualHashes and are redone
+  if (cached?.perceptualHashes) return cached;
+
+  let metadata: MediaMetadata;
+  let frames: Buffer[] = [];
+  if (type === 'image') {
+    metadata = describeImage(data, file.mimeType);
+    frames = [data];
+  } else {
+    // ffprobe and ffmpeg want a file; S3-backed archives need a scratch copy
+    const scratch = ASSET_BACKEND === 'local' ? null : join(tmpdir(), `asset-${file.sha256}`);
+    const path = scratch ?? localPath(file.sha256);
+    if (scratch) await writeFile(scratch, data);
+    try {
+      metadata = await describeVideo(path);
+      frames = await extractKeyframes(path, metadata.durationSeconds);
+      for (const frame of frames) metadata.keyframes.push(await storeBytes(frame, 'image/jpeg'));
+    } finally {
+      if (scratch) await rm(scratch, { force: true });
+    }
+  }
+
+  // Without ffmpeg the dimensions are still worth returning, but not caching,
+  // so the file gets hashed once ffmpeg is available
+  try {
+    for (const frame of frames) metadata.perceptualHashes.push(await perceptualHash(frame));
+  } catch (err) {
+    metadata.perceptualHashes = [];
+    console.warn(`[assets] Could not hash ${file.sha256}: ${err instanceof Error ? err.message : err}`);
+    return metadata;
+  }
+
+  recordAssetMetadata(file.sha256, metadata);
+  return metadata;
+}
+
+/**
+ * Archives every asset and poster in the result, in place, and attaches
+ * media metadata to each asset. A download or probe that fails leaves that
+ * field null and is summarised in diagnostics rather than failing the scrape.
+ */
+export async function archiveResultAssets(result: ScrapeResult): Promise<void> {
+  const urls = new Set<string>();
+  const assetTypes = new Map<string, AdAsset['type']>();
+  for (const ad of result.ads) {
+    for (const asset of ad.assets) {
+      urls.add(asset.url);
+      assetTypes.set(asset.url, asset.type);
+      if (asset.posterUrl) urls.add(asset.posterUrl);
+    }
+  }
+  if (urls.size === 0) return;
+
+  const archived = new Map<string, ArchivedFile | null>();
+  const metadata = new Map<string, MediaMetadata | null>();
+  const failures: { url: string; error: string }[] = [];
+  const probeFailures: { url: string; error: string }[] = [];
+  const queue = [...urls];
+  const worker = async () => {
+    for (let url = queue.shift(); url !== undefined; url = queue.shift()) {
+      let downloaded: { file: ArchivedFile; data: Buffer };
+      try {
+        downloaded = await archiveFile(url);
+        archived.set(url, downloaded.file);
+      } catch (err) {
+        archived.set(url, null);
+        failures.push({ url, error: err instanceof Error ? err.message : String(err) });
+        continue;
+      }
+
+      const type = assetTypes.get(url);
+      if (!type) continue;
+      try {
+        metadata.set(url, await describeFile(downloaded.file, downloaded.data, type));
+      } catch (err) {
+        probeFailures.push({ url, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+  };
+  const started = Date.now();
+  await Promise.all(Array.from({ length: Math.min(ASSET_CONCURRENCY, queue.length) }, worker));
+
+  const withArchive = (asset: AdAsset): AdAsset => ({
+    ...asset,
+    archive: archived.get(asset.url) ?? null,
+    posterArchive: asset.posterUrl ? archived.get(asset.posterUrl) ?? null : null,
+    metadata: metadata.get(asset.url) ?? null,
+  });
+  for (const ad of result.ads) ad.assets = ad.assets.map(withArchive);
+
+  result.diagnostics.push({
+    label: 'asset-archive',
+    backend: ASSET_BACKEND,
+    files: urls.size,
+    archived: urls.size - failures.length,
+    failed: failures.length,
+    failures: failures.slice(0, 10),
+    probeFailed: probeFailures.length,
+    probeFailures: probeFailures.slice(0, 10),
+    durationMs: Date.now() - started,
+  });
+  console.log(`[assets] Archived ${urls.size - failures.length}/${urls.size} files to ${ASSET_BACKEND}`);
+}
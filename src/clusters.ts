@@ -0,0 +1,48 @@
+import { envNonNegative, hammingDistance } from './media';
+import type { PerceptualHash, ScrapedAd } from './types';
+
+// --- Creative clusters ---
+// Advertisers run the same creative under dozens of library IDs with small
+// crops or re-encodes. Ads whose hashes sit within a few bits of each other
+// share a cluster, so reports can count distinct creatives instead of ads.
+
+/** 0 clusters exact hash matches only */
+const CLUSTER_PHASH_DISTANCE = envNonNegative('CLUSTER_PHASH_DISTANCE', 10);
+const CLUSTER_DHASH_DISTANCE = envNonNegative('CLUSTER_DHASH_DISTANCE', 16);
+
+export interface ClusterKey {
+  kind: 'image' | 'video';
+  hash: PerceptualHash;
+}
+
+export interface ClusterCandidate extends ClusterKey {
+  id: string;
+}
+
+/**
+ * The hash that stands for an ad: its first hashed asset, using the middle
+ * keyframe for videos since opening frames are often a shared intro card.
+ */
+export function representativeHash(ad: ScrapedAd): ClusterKey | null {
+  for (const asset of ad.assets) {
+    const hashes = asset.metadata?.perceptualHashes ?? [];
+    if (hashes.length === 0) continue;
+    return { kind: asset.type, hash: hashes[Math.floor(hashes.length / 2)] };
+  }
+  return null;
+}
+
+/** Closest candidate of the same kind within both distance thresholds, or null. */
+export function findCluster(key: ClusterKey, candidates: ClusterCandidate[]): ClusterCandidate | null {
+  let best: ClusterCandidate | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    if (candidate.kind !== key.kind) continue;
+    const distance = hammingDistance(key.hash.pHash, candidate.hash.pHash);
+    if (distance > CLUSTER_PHASH_DISTANCE || distance >= bestDistance) continue;
+    if (hammingDistance(key.hash.dHash, candidate.hash.dHash) > CLUSTER_DHASH_DISTANCE) continue;
+    best = candidate;
+    bestDistance = distance;
+  }
+  return best;
+}
@@ -0,0 +1,108 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import type { ScrapeContinuation, ScrapeFilters, ScrapeTarget } from './types';
+
+// --- Continuation tokens ---
+// A run stops at its ad limit or the timeout long before a large advertiser's
+// results run out. It then hands back a token saying where the ad query got
+// to, so the next call pages on through GraphQL from there instead of
+// scrolling again from the top. Tokens are opaque to callers: deflated JSON,
+// base64url-encoded, since thousands of library IDs add up.
+//
+// The ad query in a token is replayed against Facebook, so tokens are signed
+// and a tampered one is rejected. Without CONTINUATION_SECRET a random secret
+// is used and tokens don't outlive the process. Facebook's session tokens are
+// left out; a resumed run takes them from its own page.
+
+const CONTINUATION_SECRET = process.env.CONTINUATION_SECRET || randomBytes(32).toString('hex');
+
+/** Ad query parameters tied to the issuing run's browser session */
+const SESSION_PARAMS = ['lsd', 'fb_dtsg'];
+
+/** One results page of the ad query, as the page or the pagination fallback fetched it */
+export interface AdQueryPage {
+  /** Cursor the page was requested with; null for the first page */
+  cursor: string | null;
+  nextCursor: string | null;
+  hasNextPage: boolean | null;
+  libraryIds: string[];
+}
+
+function sign(payload: string): Buffer {
+  return createHmac('sha256', CONTINUATION_SECRET).update(payload).digest();
+}
+
+export function encodeContinuation(continuation: ScrapeContinuation): string {
+  const template = new URLSearchParams(continuation.template);
+  SESSION_PARAMS.forEach(param => template.delete(param));
+  const payload = deflateRawSync(JSON.stringify({ ...continuation, template: template.toString() })).toString('base64url');
+  return `${payload}.${sign(payload).toString('base64url')}`;
+}
+
+/**
+ * Decodes a token from a request. Throws with a caller-facing message when it
+ * isn't one, or wasn't issued with this server's secret.
+ */
+export function decodeContinuation(token: string): ScrapeContinuation {
+  const [payload, signature, ...rest] = token.split('.');
+  const expected = sign(payload);
+  const given = Buffer.from(signature ?? '', 'base64url');
+  if (rest.length > 0 || given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new Error('continuation is not a valid token');
+  }
+
+  let decoded: Partial<ScrapeContinuation> | null;
+  try {
+    decoded = JSON.parse(inflateRawSync(Buffer.from(payload, 'base64url')).toString('utf8'));
+  } catch {
+    decoded = null;
+  }
+  if (
+    decoded?.v !== 1
+    || !decoded.target
+    || !decoded.filters
+    || !(decoded.cursor === null || typeof decoded.cursor === 'string')
+    || typeof decoded.template !== 'string'
+    || !Array.isArray(decoded.seen)
+    || !decoded.seen.every(id => typeof id === 'string')
+  ) {
+    throw new Error('continuation is not a valid token');
+  }
+  return decoded as ScrapeContinuation;
+}
+
+/** Throws with a caller-facing message unless the token continues the same search. */
+export function assertContinues(continuation: ScrapeContinuation, target: ScrapeTarget, filters: ScrapeFilters): void {
+  if (JSON.stringify(continuation.target) !== JSON.stringify(target)) {
+    throw new Error('continuation was issued for a different page or query');
+  }
+  if (JSON.stringify(continuation.filters) !== JSON.stringify(filters)) {
+    throw new Error('continuation was issued with different filters');
+  }
+}
+
+/**
+ * Where the next run should pick up: the first page holding an ad that wasn't
+ * returned, else the cursor after the last page. Returns undefined when every
+ * ad seen was returned and the last page said there are no more.
+ *
+ * `collected` is every ad the run saw, returned or not; `start` is the cursor
+ * the run itself started from (null when it loaded the page from the top).
+ */
+export function resumeCursor(
+  pages: AdQueryPage[],
+  collected: string[],
+  done: Set<string>,
+  start: string | null,
+): string | null | undefined {
+  // Ads the page rendered before any ad query went out can only be had again from the start
+  const paged = new Set(pages.flatMap(p => p.libraryIds));
+  if (collected.some(id => !done.has(id) && !paged.has(id))) return start;
+
+  const pending = pages.find(p => p.libraryIds.some(id => !done.has(id)));
+  if (pending) return pending.cursor;
+
+  const last = pages.at(-1);
+  if (!last) return start;
+  return last.nextCursor && last.hasNextPage !== false ? last.nextCursor : undefined;
+}
@@ -0,0 +1,109 @@
+import type { AdFieldChange, RunDiff, ScrapedAd } from './types';
+
+// --- Run diffs ---
+// Compares two runs of the same page so the weekly competitor report can list
+// launches, stops and creative swaps without diffing exports by hand.
+
+const TEXT_FIELDS = ['bodyText', 'headline', 'linkCaption', 'ctaText', 'landingUrl'] as const;
+
+/**
+ * fbcdn URLs carry signed, expiring query parameters that rotate on every
+ * load, so only the path identifies the creative.
+ */
+function assetKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.host}${parsed.pathname}`;
+  } catch {
+    return url;
+  }
+}
+
+function creativeChanges(before: ScrapedAd, after: ScrapedAd): AdFieldChange[] {
+  const changes: AdFieldChange[] = [];
+
+  const beforeAssets = before.assets.map(asset => assetKey(asset.url));
+  const afterAssets = after.assets.map(asset => assetKey(asset.url));
+  if (beforeAssets.join('\n') !== afterAssets.join('\n')) {
+    changes.push({
+      field: 'assets',
+      before: before.assets.map(asset => asset.url),
+      after: after.assets.map(asset => asset.url),
+    });
+  }
+
+  for (const field of TEXT_FIELDS) {
+    if ((before[field] ?? null) !== (after[field] ?? null)) {
+      changes.push({ field, before: before[field], after: after[field] });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Impression ranges are compared by their parsed bounds: the same range reads
+ * "1K-5K" in one UI locale and "1.000-5.000" in another. The text is the
+ * fallback when either side didn't parse.
+ */
+function sameImpressions(before: ScrapedAd, after: ScrapedAd): boolean {
+  if (before.impressionBounds && after.impressionBounds) {
+    return before.impressionBounds.lower === after.impressionBounds.lower
+      && before.impressionBounds.upper === after.impressionBounds.upper;
+  }
+  return (before.impressions ?? null) === (after.impressions ?? null);
+}
+
+/**
+ * Computes the change set going from `before` (the older run's ads) to `after`.
+ * Without `complete`, an ad missing from `after` may only have dropped below
+ * a run's ad limit, so none is reported as `disappeared`.
+ */
+export function diffAds(baseRunId: string, runId: string, before: ScrapedAd[], after: ScrapedAd[], complete = true): RunDiff {
+  const previous = new Map(before.map(ad => [ad.libraryId, ad]));
+  const current = new Map(after.map(ad => [ad.libraryId, ad]));
+  const diff: RunDiff = {
+    baseRunId,
+    runId,
+    summary: { newAds: 0, stoppedAds: 0, impressionChanges: 0, creativeChanges: 0, unchanged: 0 },
+    newAds: [],
+    stoppedAds: [],
+    impressionChanges: [],
+    creativeChanges: [],
+  };
+
+  if (complete) {
+    for (const ad of previous.values()) {
+      if (!current.has(ad.libraryId)) diff.stoppedAds.push({ ad, reason: 'disappeared' });
+    }
+  }
+
+  for (const ad of current.values()) {
+    const old = previous.get(ad.libraryId);
+    if (!old) {
+      diff.newAds.push(ad);
+      continue;
+    }
+
+    let changed = false;
+    if (!old.endDate && ad.endDate) {
+      diff.stoppedAds.push({ ad, reason: 'ended' });
+      changed = true;
+    }
+    if (!sameImpressions(old, ad)) {
+      diff.impressionChanges.push({ libraryId: ad.libraryId, before: old.impressions, after: ad.impressions });
+      changed = true;
+    }
+    const changes = creativeChanges(old, ad);
+    if (changes.length > 0) {
+      diff.creativeChanges.push({ libraryId: ad.libraryId, changes });
+      changed = true;
+    }
+    if (!changed) diff.summary.unchanged++;
+  }
+
+  diff.summary.newAds = diff.newAds.length;
+  diff.summary.stoppedAds = diff.stoppedAds.length;
+  diff.summary.impressionChanges = diff.impressionChanges.length;
+  diff.summary.creativeChanges = diff.creativeChanges.length;
+  return diff;
+}
@@ -0,0 +1,895 @@
+import type { Page } from 'playwright-core';
+import { encodeContinuation, resumeCursor, type AdQueryPage } from './continuation';
+import { classifyError, fatalError, pageBlocker, ScrapeCodeError, scrapeError } from './errors';
+import { DEFAULT_FILTERS } from './filters';
+import { createRecorder, fixtureContextOptions, replayFixture, type FixtureRecorder } from './fixtures';
+import { parseGraphQLResponse, type GraphQLParseResult } from './graphql';
+import { DEFAULT_LOCALE, localizedTexts, type ScrapeLocale } from './locales';
+import {
+  applyStealthScripts,
+  buttonSelector,
+  collectPageDiagnostics,
+  contextOptions,
+  dismissCookieConsent,
+  extractAdsFromDom,
+  extractAdvertiserName,
+  hideWebdriver,
+} from './page';
+import { acquireContext, type BrowserLease } from './pool';
+import { adCardLocator, matchSelectors } from './selectors';
+import type {
+  ScrapeContinuation,
+  ScrapedAd,
+  ScrapeError,
+  ScrapeErrorCode,
+  ScrapeFilters,
+  ScrapeOptions,
+  ScrapePhase,
+  ScrapeProgress,
+  ScrapeResult,
+  ScrapeStrategyName,
+  ScrapeTarget,
+} from './types';
+import { buildTargetUrl } from './urls';
+
+// --- Scrape engine ---
+// Every strategy runs the same pipeline: open a browser context, navigate,
+// wait for hydration, scroll, fall back to paginating GraphQL directly when
+// scrolling stalls, then finalize. A strategy only picks the variant of each
+// phase, so listeners, stale detection and result assembly exist once.
+
+export const MIN_ADS = 10;
+export const MAX_ADS = 1000;
+export const DEFAULT_ADS = 400;
+const DEFAULT_TIMEOUT_MS = 180_000;
+const SCROLL_DELAY_MS = 3_000;
+const MAX_STALE_SCROLLS = 10;
+/** Scrolling that stalls this early means infinite scroll is broken rather than the results running out */
+const EARLY_STALL_SCROLLS = 3;
+const EARLY_STALL_MAX_ADS = 30;
+const MAX_API_PAGES = 50;
+
+export interface NetworkEntry {
+  url: string;
+  status: number;
+  method: string;
+  type: string;
+}
+
+interface GraphQLCapture {
+  reqBody: string;
+  respSnippet: string;
+  status: number;
+}
+
+/** State shared by the phases of one scrape. */
+interface ScrapeSession {
+  strategy: ScrapeStrategy;
+  /** Log prefix, e.g. "[v3]" */
+  tag: string;
+  target: ScrapeTarget;
+  filters: ScrapeFilters;
+  limit: number;
+  locale: ScrapeLocale;
+  options: ScrapeOptions;
+  startTime: number;
+  page: Page;
+  diagnostics: Record<string, unknown>[];
+  seenAds: Map<string, ScrapedAd>;
+  networkLog: NetworkEntry[];
+  graphqlTraffic: GraphQLCapture[];
+  /** Latest request body of the ad query, the template for paging it ourselves */
+  adQuery: string | null;
+  /** Results pages of the ad query fetched so far, in order */
+  adQueryPages: AdQueryPage[];
+  /** Set when `options.fixture` records the run */
+  recorder: FixtureRecorder | null;
+  blockedRequests: string[];
+  consoleErrors: string[];
+  pageErrors: string[];
+  advertiserName: string | null;
+  /** Ads collected so far, in page order */
+  ads: ScrapedAd[];
+  scrollIteration: number;
+  staleScrollCount: number;
+  report: (phase: ScrapePhase, adsCollected?: number) => void;
+  /** Records a warning in the result's errors, once per code */
+  warn: (code: ScrapeErrorCode, message: string) => void;
+}
+
+/** One step of the pipeline. Phases read and update the session. */
+type Phase = (session: ScrapeSession) => Promise<void>;
+
+interface ScrapeStrategy {
+  name: Exclude<ScrapeStrategyName, 'auto'>;
+  /** Full stealth patches and client-hint headers, instead of only hiding navigator.webdriver */
+  stealth: boolean;
+  navigate: Phase;
+  hydrate: Phase;
+  /** One scroll of the loop; extraction and stale detection happen around it */
+  scroll: Phase;
+  /** Runs when scrolling stalled early and short of the limit */
+  paginate: Phase | null;
+}
+
+function describeTarget(target: ScrapeTarget): string {
+  return target.kind === 'page' ? target.facebookPageId : `keyword "${target.query}"`;
+}
+
+/** Diagnostics list that also forwards each entry to `options.onDiagnostic` as it is recorded. */
+function createDiagnostics(options: ScrapeOptions): Record<string, unknown>[] {
+  const diagnostics: Record<string, unknown>[] = [];
+  const forward = options.onDiagnostic;
+  if (forward) {
+    diagnostics.push = (...items) => {
+      items.forEach(item => forward(item));
+      return Array.prototype.push.apply(diagnostics, items);
+    };
+  }
+  return diagnostics;
+}
+
+/** On page scrapes every ad belongs to the scraped page, so fill gaps the card didn't expose. */
+function tagAdvertiser(session: ScrapeSession, ads: ScrapedAd[]): ScrapedAd[] {
+  const { target, advertiserName } = session;
+  if (target.kind !== 'page') return ads;
+  return ads.map(ad => ({
+    ...ad,
+    pageId: ad.pageId ?? target.facebookPageId,
+    pageName: ad.pageName ?? advertiserName,
+  }));
+}
+
+/**
+ * Remembers ads the first time they're seen (capped at the scrape limit) and
+ * streams them through `options.onAds`. What's in `seenAds` is what a failed
+ * run still returns.
+ */
+function recordNewAds(session: ScrapeSession, ads: ScrapedAd[]): void {
+  const { seenAds, limit, options } = session;
+  const fresh: ScrapedAd[] = [];
+  for (const ad of tagAdvertiser(session, ads)) {
+    if (seenAds.size >= limit) break;
+    if (seenAds.has(ad.libraryId)) continue;
+    seenAds.set(ad.libraryId, ad);
+    fresh.push(ad);
+  }
+  if (fresh.length > 0) options.onAds?.(fresh);
+}
+
+function adQueryKey(target: ScrapeTarget): string {
+  return target.kind === 'page' ? 'viewAllPageID' : 'queryString';
+}
+
+/** Remembers a results page of the ad query for the continuation token; a cursor already fetched is kept once. */
+function recordAdQueryPage(session: ScrapeSession, cursor: string | null, parsed: GraphQLParseResult): void {
+  if (session.adQueryPages.some(p => p.cursor === cursor)) return;
+  session.adQueryPages.push({
+    cursor,
+    nextCursor: parsed.nextCursor,
+    hasNextPage: parsed.hasNextPage,
+    libraryIds: parsed.ads.map(ad => ad.libraryId),
+  });
+}
+
+function listen(session: ScrapeSession): void {
+  const { page, tag } = session;
+
+  page.on('console', msg => {
+    if (msg.type() === 'error') session.consoleErrors.push(msg.text());
+  });
+
+  // Uncaught exceptions, which never reach console.error
+  page.on('pageerror', err => {
+    session.pageErrors.push(err.message);
+  });
+
+  page.on('response', resp => {
+    const url = resp.url();
+    const status = resp.status();
+    if (status === 403) session.blockedRequests.push(`403: ${url.substring(0, 200)}`);
+    // Facebook API calls — these are the requests that load more ads
+    if (url.includes('/api/graphql') || url.includes('/ajax/') || url.includes('ads_library')) {
+      session.networkLog.push({
+        url: url.substring(0, 200),
+        status,
+        method: resp.request().method(),
+        type: resp.request().resourceType(),
+      });
+    }
+  });
+
+  // Pagination replays a captured ad query, so only strategies that paginate need the bodies
+  if (session.strategy.paginate) {
+    page.on('response', async resp => {
+      if (!resp.url().includes('/api/graphql')) return;
+      try {
+        const reqBody = resp.request().postData() || '';
+        const respBody = await resp.text();
+        session.graphqlTraffic.push({ reqBody, respSnippet: respBody.substring(0, 3000), status: resp.status() });
+        console.log(`${tag} GraphQL captured (${resp.status()}): ${reqBody.substring(0, 80)}...`);
+      } catch {
+        // Response body no longer available
+      }
+    });
+  }
+
+  // Every strategy tracks the ad query's pages, so any run can hand back a continuation token
+  page.on('response', async resp => {
+    if (!resp.url().includes('/api/graphql')) return;
+    const reqBody = resp.request().postData() || '';
+    let variables: Record<string, unknown>;
+    try {
+      variables = JSON.parse(new URLSearchParams(reqBody).get('variables') || '{}');
+    } catch {
+      return;
+    }
+    if (!(adQueryKey(session.target) in variables)) return;
+    try {
+      const parsed = parseGraphQLResponse(await resp.text());
+      session.adQuery = reqBody;
+      recordAdQueryPage(session, typeof variables.cursor === 'string' ? variables.cursor : null, parsed);
+    } catch {
+      // Response body no longer available
+    }
+  });
+
+  const recorder = session.recorder;
+  if (recorder) {
+    page.on('response', async resp => {
+      if (!resp.url().includes('/api/graphql')) return;
+      try {
+        recorder.saveGraphQL(resp.request().postData() || '', await resp.text(), resp.status());
+      } catch {
+        // Response body no longer available
+      }
+    });
+  }
+}
+
+// --- Navigation ---
+
+function navigate(waitUntil: 'domcontentloaded' | 'networkidle', timeoutMs: number): Phase {
+  return async session => {
+    console.log(`${session.tag} Navigating (${waitUntil})...`);
+    const url = buildTargetUrl(session.target, session.filters, session.options.baseUrl);
+    await session.page.goto(url, { waitUntil, timeout: timeoutMs });
+    await dismissCookieConsent(session.page, session.locale);
+  };
+}
+
+// --- Hydration ---
+
+/** Waits for the first ad card, then gives Facebook's scripts `settleMs` to attach their scroll handlers. */
+function waitForAds(timeoutMs: number, settleMs: number): Phase {
+  return async ({ page, tag, locale }) => {
+    try {
+      await adCardLocator(page, locale).waitFor({ timeout: timeoutMs });
+      console.log(`${tag} Ad containers detected`);
+    } catch {
+      console.warn(`${tag} Ad containers did not appear within ${timeoutMs / 1000}s`);
+    }
+    await page.waitForTimeout(settleMs);
+  };
+}
+
+/**
+ * Polls until ads are rendered and no spinner is left. Server-rendered cards
+ * appear long before React hydrates them, and scrolling before that loads nothing.
+ */
+function pollHydration(attempts: number, intervalMs: number, settleMs: number): Phase {
+  return async ({ page, tag, locale }) => {
+    console.log(`${tag} Waiting for React hydration...`);
+    let hydrated = false;
+
+    for (let i = 0; i < attempts; i++) {
+      const { adCardCount } = await matchSelectors(page, locale);
+      const hasSpinner = await page.evaluate(() =>
+        Array.from(document.querySelectorAll('div')).some(d =>
+          d.getAttribute('role') === 'progressbar' || d.className.includes('loading')
+        )
+      );
+      const state = { adCount: adCardCount, hasSpinner };
+
+      if (i % 5 === 0 || (state.adCount > 0 && !state.hasSpinner)) {
+        console.log(`${tag} Hydration check #${i}: ${state.adCount} ads, spinner: ${state.hasSpinner}`);
+      }
+
+      if (state.adCount > 0 && !state.hasSpinner) {
+        console.log(`${tag} Hydration complete`);
+        hydrated = true;
+        break;
+      }
+
+      await page.waitForTimeout(intervalMs);
+    }
+
+    if (!hydrated) {
+      console.warn(`${tag} Hydration did not complete within ${(attempts * intervalMs) / 1000}s, continuing anyway`);
+    }
+    await page.waitForTimeout(settleMs);
+  };
+}
+
+// --- Scrolling ---
+
+/** Jumps to the bottom, clicking "See more" when Facebook gates infinite scroll behind it. */
+const scrollToBottom: Phase = async ({ page, tag, locale, scrollIteration }) => {
+  await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+
+  try {
+    const seeMoreBtn = page.locator(buttonSelector(localizedTexts(locale, 'seeMore'), true)).first();
+    if (await seeMoreBtn.isVisible({ timeout: 500 })) {
+      await seeMoreBtn.click();
+      console.log(`${tag} Clicked "See more" button on scroll #${scrollIteration}`);
+      await page.waitForTimeout(2_000);
+    }
+  } catch {
+    // Button not present
+  }
+
+  await page.waitForTimeout(SCROLL_DELAY_MS);
+};
+
+/** Scrolls ~2 viewports at a time with human-like pauses, which triggers IntersectionObservers. */
+const smoothScroll: Phase = async ({ page }) => {
+  const vh = await page.evaluate(() => window.innerHeight);
+  const prePos = await page.evaluate(() => window.scrollY);
+  const preHeight = await page.evaluate(() => document.body.scrollHeight);
+  const target = Math.min(prePos + vh * 2, preHeight);
+
+  await page.evaluate((t) => window.scrollTo({ top: t, behavior: 'smooth' }), target);
+
+  // Randomized delay (2.5–5s) to mimic human reading
+  await page.waitForTimeout(2500 + Math.floor(Math.random() * 2500));
+
+  // If near the bottom, wait extra for lazy-loaded content then scroll to absolute end
+  const nearBottom = await page.evaluate(() =>
+    document.body.scrollHeight - window.scrollY - window.innerHeight < 300
+  );
+  if (nearBottom) {
+    await page.waitForTimeout(2_000);
+    await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+    await page.waitForTimeout(1_000);
+  }
+};
+
+function stalledEarly(session: ScrapeSession): boolean {
+  return session.ads.length < session.limit && session.ads.length <= EARLY_STALL_MAX_ADS;
+}
+
+/** Scrolls until the limit, the timeout, or too many scrolls in a row that load nothing. */
+async function scrollLoop(session: ScrapeSession): Promise<void> {
+  const { page, tag, strategy, diagnostics, limit } = session;
+  const name = strategy.name;
+
+  session.ads = await extractAdsFromDom(page, session.locale);
+  recordNewAds(session, session.ads);
+  await session.recorder?.snapshotDom(page, session.ads);
+  console.log(`${tag} Initial extraction: ${session.ads.length} ads`);
+  let previousAdCount = session.ads.length;
+
+  while (session.ads.length < limit) {
+    if (Date.now() - session.startTime > DEFAULT_TIMEOUT_MS) {
+      session.warn('TIMEOUT', `Timed out after ${DEFAULT_TIMEOUT_MS / 1000}s with ${session.ads.length} of ${limit} ads`);
+      break;
+    }
+
+    session.scrollIteration++;
+    const preHeight = await page.evaluate(() => document.body.scrollHeight);
+    const netBefore = session.networkLog.length;
+
+    await strategy.scroll(session);
+
+    const postHeight = await page.evaluate(() => document.body.scrollHeight);
+    session.ads = await extractAdsFromDom(page, session.locale);
+    recordNewAds(session, session.ads);
+    if (session.ads.length !== previousAdCount) await session.recorder?.snapshotDom(page, session.ads);
+
+    console.log(
+      `${tag} Scroll #${session.scrollIteration}: ${session.ads.length} ads (prev: ${previousAdCount}, stale: ${session.staleScrollCount}/${MAX_STALE_SCROLLS}) | ` +
+      `height: ${preHeight}->${postHeight}, net: +${session.networkLog.length - netBefore}`
+    );
+    session.report('scrolling');
+
+    if (session.ads.length === previousAdCount) {
+      session.staleScrollCount++;
+      if (session.staleScrollCount === 1) {
+        const stale = await collectPageDiagnostics(page, `${name}-first-stale`, session.locale);
+        diagnostics.push(stale);
+        diagnostics.push({ label: `${name}-stale-network`, recentRequests: session.networkLog.slice(-5) });
+        // A blocker showing up mid-scroll explains the stall, but the ads so far are still good
+        const blocker = pageBlocker(stale, session.target);
+        if (blocker) session.warn(blocker.code, blocker.message);
+      }
+      if (strategy.paginate && session.staleScrollCount >= EARLY_STALL_SCROLLS && stalledEarly(session)) {
+        console.log(`${tag} Scroll stuck early, switching to direct API pagination`);
+        break;
+      }
+      if (session.staleScrollCount >= MAX_STALE_SCROLLS) {
+        console.log(`${tag} Stopping after ${MAX_STALE_SCROLLS} stale scrolls at ${session.ads.length} ads`);
+        break;
+      }
+    } else {
+      session.staleScrollCount = 0;
+    }
+
+    previousAdCount = session.ads.length;
+  }
+}
+
+// --- Pagination fallback ---
+
+/**
+ * Replays the ad search query Facebook itself sent, moving its cursor along,
+ * for when the page stops loading more results on scroll.
+ */
+const paginateGraphQL: Phase = async session => {
+  const { page, tag, target, diagnostics, graphqlTraffic, limit } = session;
+  const name = session.strategy.name;
+  console.log(`${tag} Attempting direct API pagination...`);
+
+  // The captured ad query's full request body is the template for every call
+  let adQueryRequestBody: string | null = null;
+  const templateKey = adQueryKey(target);
+  for (const traffic of graphqlTraffic) {
+    const params = new URLSearchParams(traffic.reqBody);
+    const vars = params.get('variables');
+    if (vars && vars.includes(templateKey)) {
+      adQueryRequestBody = traffic.reqBody;
+      console.log(`${tag} Found ad search query template (doc_id=${params.get('doc_id')})`);
+      break;
+    }
+  }
+
+  // The first cursor is where the page's own ad queries got to, else the data embedded in the page
+  const pageState = await page.evaluate(() => {
+    const allText = Array.from(document.querySelectorAll('script'))
+      .map(s => s.textContent || '')
+      .join('\n');
+
+    const fwdCursorMatch = allText.match(/"forward_cursor"\s*:\s*"([^"]+)"/);
+    const endCursorMatch = allText.match(/"end_cursor"\s*:\s*"([^"]+)"/);
+    const hasNextMatch = allText.match(/"has_next_page"\s*:\s*(true|false)/);
+
+    return {
+      forwardCursor: fwdCursorMatch?.[1] || null,
+      endCursor: endCursorMatch?.[1] || null,
+      hasNextPage: hasNextMatch?.[1] || null,
+    };
+  });
+  const cursor = session.adQueryPages.at(-1)?.nextCursor || pageState.forwardCursor || pageState.endCursor;
+
+  console.log(`${tag} Token sources:`, JSON.stringify({
+    hasBaseRequest: !!adQueryRequestBody,
+    cursor: cursor?.substring(0, 30) || null,
+    hasNextPage: pageState.hasNextPage,
+    capturedCalls: graphqlTraffic.length,
+  }));
+  diagnostics.push({ label: `${name}-tokens`, hasBaseRequest: !!adQueryRequestBody, ...pageState });
+  diagnostics.push({ label: `${name}-graphql-traffic`, traffic: graphqlTraffic.map(t => ({ ...t, reqBody: t.reqBody.substring(0, 500) })) });
+
+  if (!cursor || !adQueryRequestBody) {
+    console.log(`${tag} Missing tokens for API approach:`, { hasCursor: !!cursor, hasBaseRequest: !!adQueryRequestBody });
+    diagnostics.push({ label: `${name}-missing-tokens`, hasCursor: !!cursor, hasBaseRequest: !!adQueryRequestBody });
+    session.warn('PAGINATION_FAILED', `No ${cursor ? 'captured ad query' : 'cursor'} to paginate GraphQL with`);
+    return;
+  }
+
+  await paginateFrom(session, adQueryRequestBody, cursor, new Set(session.ads.map(ad => ad.libraryId)));
+};
+
+/**
+ * Pages the ad query from `cursor` (null for the first page) until the limit,
+ * the end of the results or MAX_API_PAGES. Ads in `known` are skipped; the
+ * rest are appended to the session's ads.
+ */
+async function paginateFrom(session: ScrapeSession, template: string, cursor: string | null, known: Set<string>): Promise<void> {
+  const { page, tag, diagnostics, limit } = session;
+  const name = session.strategy.name;
+  const baseParams = new URLSearchParams(template);
+  let baseVars: Record<string, unknown>;
+  try {
+    baseVars = JSON.parse(baseParams.get('variables') || '{}');
+  } catch {
+    baseVars = {};
+  }
+  console.log(`${tag} Starting direct API pagination (doc_id=${baseParams.get('doc_id')}, base vars keys: ${Object.keys(baseVars).join(',')})`);
+
+  const apiAds: ScrapedAd[] = [];
+  let currentCursor = cursor;
+  let apiPage = 0;
+
+  while (session.ads.length + apiAds.length < limit && (apiPage === 0 || currentCursor) && apiPage < MAX_API_PAGES) {
+    if (Date.now() - session.startTime > DEFAULT_TIMEOUT_MS) {
+      session.warn('TIMEOUT', `Timed out after ${DEFAULT_TIMEOUT_MS / 1000}s paginating GraphQL`);
+      break;
+    }
+    apiPage++;
+
+    session.report('api-pagination', session.ads.length + apiAds.length);
+    console.log(`${tag} API page #${apiPage}, cursor: ${currentCursor?.substring(0, 30) ?? 'none'}..., total: ${session.ads.length + apiAds.length}`);
+
+    // Replay the exact captured request, only changing the cursor
+    const callParams = new URLSearchParams(template);
+    baseVars.cursor = currentCursor;
+    callParams.set('variables', JSON.stringify(baseVars));
+
+    const apiResult: { ok: boolean; status: number; body: string } = await page.evaluate(
+      async (requestBody: string) => {
+        try {
+          const resp = await fetch('/api/graphql/', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: requestBody,
+            credentials: 'include',
+          });
+          const text = await resp.text();
+          return { ok: true, status: resp.status, body: text };
+        } catch (e) {
+          return { ok: false, status: 0, body: String(e) };
+        }
+      },
+      callParams.toString()
+    );
+
+    if (!apiResult.ok || apiResult.status !== 200) {
+      console.log(`${tag} API call failed: status=${apiResult.status}`);
+      diagnostics.push({ label: `${name}-api-fail-${apiPage}`, status: apiResult.status, snippet: apiResult.body.substring(0, 1000) });
+      session.warn('PAGINATION_FAILED', `GraphQL page ${apiPage} failed with status ${apiResult.status}`);
+      break;
+    }
+
+    // Facebook prefixes responses with "for (;;);" and may stream several
+    // JSON documents per response — the parser handles both
+    const parsed = parseGraphQLResponse(apiResult.body);
+    for (const diag of parsed.diagnostics) {
+      diagnostics.push({ ...diag, label: `${name}-api-${diag.label}-${apiPage}` });
+    }
+
+    if (parsed.documentCount === 0) {
+      console.log(`${tag} Failed to parse API response on page #${apiPage}`);
+      diagnostics.push({ label: `${name}-api-parse-fail-${apiPage}`, snippet: apiResult.body.substring(0, 2000) });
+      session.warn('PAGINATION_FAILED', `GraphQL page ${apiPage} could not be parsed`);
+      break;
+    }
+
+    recordAdQueryPage(session, currentCursor, parsed);
+    const nextCursor = parsed.nextCursor;
+    console.log(`${tag} API page #${apiPage}: ${parsed.nodes.length} ad nodes, nextCursor=${nextCursor ? 'yes' : 'no'}`);
+
+    if (parsed.nodes.length === 0) {
+      console.log(`${tag} API page #${apiPage}: no ad data found`);
+      diagnostics.push({ label: `${name}-api-no-data-${apiPage}`, snippet: apiResult.body.substring(0, 2000) });
+      break;
+    }
+
+    let added = 0;
+    for (const ad of parsed.ads) {
+      if (known.has(ad.libraryId)) continue;
+      known.add(ad.libraryId);
+      apiAds.push(ad);
+      added++;
+    }
+
+    recordNewAds(session, apiAds);
+    console.log(`${tag} Extracted ${added} new ads from API page #${apiPage} (${apiAds.length} total API ads)`);
+
+    if (!nextCursor || parsed.hasNextPage === false) {
+      console.log(`${tag} No next cursor — reached end of results`);
+      break;
+    }
+    currentCursor = nextCursor;
+
+    // Small delay between API calls
+    await page.waitForTimeout(1000 + Math.floor(Math.random() * 1000));
+  }
+
+  if (apiAds.length > 0) {
+    console.log(`${tag} API pagination collected ${apiAds.length} additional ads`);
+    session.ads = [...session.ads, ...apiAds];
+  }
+}
+
+/**
+ * Carries on from a continuation token: pages the ad query from the token's
+ * cursor, skipping what earlier runs returned. Tokens don't carry Facebook's
+ * session tokens, so the template gets this page's.
+ */
+async function resumeFrom(session: ScrapeSession, continuation: ScrapeContinuation): Promise<void> {
+  const { page, tag } = session;
+  const fresh = await page.evaluate(() => {
+    const html = document.documentElement.innerHTML;
+    return {
+      lsd: html.match(/"LSD",\[\],\{"token":"([^"]+)"/)?.[1] ?? null,
+      fbDtsg: html.match(/"DTSGInitialData",\[\],\{"token":"([^"]+)"/)?.[1] ?? null,
+    };
+  });
+  const params = new URLSearchParams(continuation.template);
+  if (fresh.lsd) params.set('lsd', fresh.lsd);
+  if (fresh.fbDtsg) params.set('fb_dtsg', fresh.fbDtsg);
+  session.adQuery = params.toString();
+
+  console.log(`${tag} Resuming from continuation (${continuation.seen.length} ads already returned)`);
+  session.diagnostics.push({
+    label: `${session.strategy.name}-resume`,
+    cursor: continuation.cursor?.substring(0, 30) ?? null,
+    seen: continuation.seen.length,
+    refreshedTokens: { lsd: !!fresh.lsd, fbDtsg: !!fresh.fbDtsg },
+  });
+  await paginateFrom(session, session.adQuery, continuation.cursor, new Set(continuation.seen));
+}
+
+/** Token for the next run, or null when the results were exhausted or there's no ad query to page. */
+function continuationFor(session: ScrapeSession, returned: ScrapedAd[]): string | null {
+  const { target, filters, options } = session;
+  const start = options.continuation;
+  const template = session.adQuery ?? start?.template;
+  if (!template) return null;
+
+  const done = new Set([...(start?.seen ?? []), ...returned.map(ad => ad.libraryId)]);
+  const collected = [...session.ads, ...session.seenAds.values()].map(ad => ad.libraryId);
+  const cursor = resumeCursor(session.adQueryPages, collected, done, start?.cursor ?? null);
+  if (cursor === undefined) return null;
+  return encodeContinuation({ v: 1, target, filters, cursor, template, seen: [...done] });
+}
+
+// --- Strategies ---
+
+const STRATEGIES: Record<ScrapeStrategy['name'], ScrapeStrategy> = {
+  /** The original: quick load, jump to the bottom */
+  v1: {
+    name: 'v1',
+    stealth: false,
+    navigate: navigate('domcontentloaded', 30_000),
+    hydrate: waitForAds(15_000, 2_000),
+    scroll: scrollToBottom,
+    paginate: null,
+  },
+  /** Stealthier and slower, for when v1 gets served a page that never loads more */
+  v2: {
+    name: 'v2',
+    stealth: true,
+    navigate: navigate('networkidle', 60_000),
+    hydrate: waitForAds(30_000, 5_000),
+    scroll: smoothScroll,
+    paginate: null,
+  },
+  /** Waits for hydration and pages through GraphQL when scrolling gets stuck */
+  v3: {
+    name: 'v3',
+    stealth: true,
+    navigate: navigate('networkidle', 60_000),
+    hydrate: pollHydration(30, 2_000, 3_000),
+    scroll: scrollToBottom,
+    paginate: paginateGraphQL,
+  },
+};
+
+/** Order `auto` tries strategies in: the most thorough first, the plainest last. */
+const AUTO_ORDER: ScrapeStrategy['name'][] = ['v3', 'v2', 'v1'];
+
+export const SCRAPE_STRATEGIES: ScrapeStrategyName[] = ['v1', 'v2', 'v3', 'auto'];
+
+async function runStrategy(
+  strategy: ScrapeStrategy,
+  target: ScrapeTarget,
+  adLimit: number,
+  filters: ScrapeFilters,
+  options: ScrapeOptions,
+): Promise<ScrapeResult> {
+  const startTime = Date.now();
+  const limit = Math.max(MIN_ADS, Math.min(MAX_ADS, adLimit));
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const tag = `[${strategy.name}]`;
+  const diagnostics = createDiagnostics(options);
+  const seenAds = new Map<string, ScrapedAd>();
+  const blockedRequests: string[] = [];
+  const consoleErrors: string[] = [];
+  const warnings: ScrapeError[] = [];
+  let session: ScrapeSession | null = null;
+
+  console.log(`${tag} Starting scrape for ${describeTarget(target)} (limit: ${limit})`);
+
+  let lease: BrowserLease | null = null;
+
+  // Cancelling closes the job's context, which makes whatever the scraper is awaiting reject
+  const closeOnAbort = () => {
+    lease?.release().catch(() => {});
+  };
+  options.signal?.addEventListener('abort', closeOnAbort, { once: true });
+  let lastProgress: ScrapeProgress = { phase: 'launching', scrollIteration: 0, adsCollected: 0, staleScrollCount: 0 };
+  const report = (progress: ScrapeProgress) => {
+    lastProgress = progress;
+    options.onProgress?.(progress);
+  };
+  report(lastProgress);
+  const warn = (code: ScrapeErrorCode, message: string) => {
+    if (warnings.some(w => w.code === code)) return;
+    console.warn(`${tag} ${code}: ${message}`);
+    warnings.push(scrapeError(code, lastProgress.phase, message, 'warning'));
+  };
+
+  const result = (ads: ScrapedAd[], fatal: ScrapeError | null): ScrapeResult => ({
+    success: fatal === null,
+    status: fatal === null ? 'success' : ads.length > 0 ? 'partial' : 'failed',
+    ads,
+    totalFound: ads.length,
+    errors: fatal === null ? warnings : [fatal, ...warnings],
+    durationMs: Date.now() - startTime,
+    advertiserName: session?.advertiserName ?? null,
+    diagnostics,
+    blockedRequests,
+    consoleErrors,
+    filters,
+    adLimit: limit,
+    locale: locale.tag,
+    failure: fatal === null
+      ? null
+      : { phase: lastProgress.phase, scrollIteration: lastProgress.scrollIteration, adsCollected: ads.length, message: fatal.message },
+    // A run that never got to the page hands the caller's token back unchanged
+    continuation: session
+      ? continuationFor(session, ads)
+      : options.continuation ? encodeContinuation(options.continuation) : null,
+  });
+
+  try {
+    if (target.kind === 'page' && !/^[0-9]+$/.test(target.facebookPageId)) {
+      throw new ScrapeCodeError('INVALID_PAGE_ID', `facebookPageId must be numeric, got "${target.facebookPageId}"`);
+    }
+
+    const fixture = options.fixture;
+    lease = await acquireContext(
+      { ...contextOptions(locale, strategy.stealth), ...(fixture && fixtureContextOptions(fixture)) },
+      options.signal,
+    );
+    options.signal?.throwIfAborted();
+    if (fixture?.mode === 'replay') await replayFixture(lease.context, fixture);
+
+    const page = await lease.context.newPage();
+    if (strategy.stealth) await applyStealthScripts(page, locale);
+    else await hideWebdriver(page);
+
+    const current: ScrapeSession = {
+      strategy, tag, target, filters, limit, locale, options, startTime, page, diagnostics, seenAds,
+      networkLog: [],
+      graphqlTraffic: [],
+      adQuery: null,
+      adQueryPages: [],
+      recorder: fixture?.mode === 'record' ? createRecorder(fixture) : null,
+      blockedRequests,
+      consoleErrors,
+      pageErrors: [],
+      advertiserName: null,
+      ads: [],
+      scrollIteration: 0,
+      staleScrollCount: 0,
+      report: (phase, adsCollected) => report({
+        phase,
+        scrollIteration: current.scrollIteration,
+        adsCollected: adsCollected ?? current.ads.length,
+        staleScrollCount: current.staleScrollCount,
+      }),
+      warn,
+    };
+    session = current;
+    listen(current);
+
+    current.report('navigating');
+    await strategy.navigate(current);
+    current.report('hydrating');
+    await strategy.hydrate(current);
+
+    const afterLoad = await collectPageDiagnostics(page, `${strategy.name}-after-load`, locale);
+    diagnostics.push(afterLoad);
+    // With no ads on screen a blocker is the whole story; scrolling would only burn the timeout
+    const blocker = pageBlocker(afterLoad, target);
+    if (blocker && afterLoad.adContainerCount === 0) throw new ScrapeCodeError(blocker.code, blocker.message);
+    if (blocker) warn(blocker.code, blocker.message);
+    diagnostics.push({ label: `${strategy.name}-initial-network`, requests: [...current.networkLog] });
+    const jsState = await page.evaluate(() => {
+      const scripts = Array.from(document.querySelectorAll('script[src]'));
+      return {
+        scriptCount: scripts.length,
+        hasFbJs: scripts.some(s => (s.getAttribute('src') || '').includes('rsrc.php')),
+        bodyClasses: document.body.className.substring(0, 200),
+      };
+    });
+    diagnostics.push({ label: `${strategy.name}-js-state`, ...jsState });
+
+    // Keyword results span many advertisers, so there's no single page header to read
+    current.advertiserName = target.kind === 'page' ? await extractAdvertiserName(page) : null;
+    if (current.advertiserName) console.log(`${tag} Advertiser: "${current.advertiserName}"`);
+
+    if (options.continuation) {
+      current.report('api-pagination');
+      await resumeFrom(current, options.continuation);
+    } else {
+      await scrollLoop(current);
+      if (strategy.paginate && stalledEarly(current)) await strategy.paginate(current);
+    }
+
+    // Finalize
+    current.report('finalizing');
+    const ads = tagAdvertiser(current, current.ads.slice(0, limit));
+    diagnostics.push(await collectPageDiagnostics(page, `${strategy.name}-complete`, locale));
+    const selectors = await matchSelectors(page, locale);
+    if (selectors.drift) {
+      const message = `${selectors.libraryIdsInText} library IDs on the page, cards matched by ${selectors.adCard ?? 'nothing'}`;
+      if (ads.length === 0) throw new ScrapeCodeError('SELECTOR_DRIFT', message);
+      warn('SELECTOR_DRIFT', message);
+    }
+    diagnostics.push({ label: `${strategy.name}-final-network`, total: current.networkLog.length, log: current.networkLog });
+    if (current.pageErrors.length > 0) {
+      console.warn(`${tag} Page errors:`, current.pageErrors);
+      diagnostics.push({ label: `${strategy.name}-page-errors`, errors: current.pageErrors });
+    }
+
+    console.log(`${tag} Done: ${ads.length} ads, ${current.networkLog.length} API calls tracked`);
+    if (blockedRequests.length > 0) console.warn(`${tag} Blocked requests:`, blockedRequests);
+    if (consoleErrors.length > 0) console.warn(`${tag} Console errors:`, consoleErrors);
+
+    return result(ads, null);
+  } catch (error) {
+    const fatal = classifyError(error, lastProgress.phase, !!options.signal?.aborted);
+    console.error(`${tag} Failed (${fatal.code}): ${fatal.message}`);
+    return result([...seenAds.values()], fatal);
+  } finally {
+    options.signal?.removeEventListener('abort', closeOnAbort);
+    if (lease) await lease.release();
+  }
+}
+
+/**
+ * Tries each strategy in AUTO_ORDER until one succeeds with ads. When none
+ * does, the attempt that gathered the most ads is returned. Every attempt is
+ * listed in an `auto-attempts` diagnostic.
+ */
+async function runAuto(target: ScrapeTarget, adLimit: number, filters: ScrapeFilters, options: ScrapeOptions): Promise<ScrapeResult> {
+  const startTime = Date.now();
+  // A failed attempt may already have streamed some ads; the next one must not repeat them
+  const streamed = new Set<string>();
+  const onAds = options.onAds;
+  const attemptOptions: ScrapeOptions = {
+    ...options,
+    onAds: onAds && (ads => {
+      const fresh = ads.filter(ad => !streamed.has(ad.libraryId));
+      fresh.forEach(ad => streamed.add(ad.libraryId));
+      if (fresh.length > 0) onAds(fresh);
+    }),
+  };
+
+  const attempts: Record<string, unknown>[] = [];
+  let best: { strategy: string; result: ScrapeResult } | null = null;
+  for (const [i, name] of AUTO_ORDER.entries()) {
+    const result = await runStrategy(STRATEGIES[name], target, adLimit, filters, attemptOptions);
+    const fatal = fatalError(result);
+    attempts.push({ strategy: name, status: result.status, ads: result.ads.length, durationMs: result.durationMs, error: fatal?.code ?? null });
+    const accepted = result.success && result.ads.length > 0;
+    if (!best || accepted || result.ads.length > best.result.ads.length) best = { strategy: name, result };
+    // Another strategy won't get past an invalid page ID or selectors that no longer match
+    if (accepted || options.signal?.aborted || fatal?.retryable === false || i === AUTO_ORDER.length - 1) break;
+    console.warn(`[auto] ${name} ended ${result.status} with ${result.ads.length} ads, falling back to ${AUTO_ORDER[i + 1]}`);
+  }
+
+  const { strategy, result } = best!;
+  result.diagnostics.push({ label: 'auto-attempts', chosen: strategy, attempts });
+  return { ...result, durationMs: Date.now() - startTime };
+}
+
+/**
+ * Scrapes `target` with a named strategy, or with `auto` to fall back from
+ * one strategy to the next. Never throws: failures come back as a failed or
+ * partial result.
+ */
+export function runScrape(
+  strategy: ScrapeStrategyName,
+  target: ScrapeTarget,
+  adLimit: number,
+  filters: ScrapeFilters = DEFAULT_FILTERS,
+  options: ScrapeOptions = {},
+): Promise<ScrapeResult> {
+  return strategy === 'auto'
+    ? runAuto(target, adLimit, filters, options)
+    : runStrategy(STRATEGIES[strategy], target, adLimit, filters, options);
+}
@@ -0,0 +1,83 @@
+import type { ScrapeError, ScrapeErrorCode, ScrapePhase, ScrapeResult, ScrapeTarget } from './types';
+
+// --- Scrape errors ---
+// Every way a run can go wrong has a stable code, so callers can decide what
+// to do (retry later, try another strategy, fix the selector registry) without
+// parsing exception text. Each code also fixes whether retrying can help and
+// the HTTP status a failed run is answered with.
+
+interface ErrorCodeSpec {
+  retryable: boolean;
+  httpStatus: number;
+}
+
+const ERROR_CODES: Record<ScrapeErrorCode, ErrorCodeSpec> = {
+  TIMEOUT: { retryable: true, httpStatus: 504 },
+  NAVIGATION_FAILED: { retryable: true, httpStatus: 502 },
+  LOGIN_WALL: { retryable: true, httpStatus: 502 },
+  RATE_LIMITED: { retryable: true, httpStatus: 429 },
+  CAPTCHA_PRESENT: { retryable: true, httpStatus: 503 },
+  // The page changed under the scrapers; retrying won't help until selectors.ts is updated
+  SELECTOR_DRIFT: { retryable: false, httpStatus: 502 },
+  PAGINATION_FAILED: { retryable: true, httpStatus: 502 },
+  INVALID_PAGE_ID: { retryable: false, httpStatus: 400 },
+  // Nginx's "client closed request"; the client that cancelled rarely sees it
+  CANCELLED: { retryable: true, httpStatus: 499 },
+  // Unrecognised failures, e.g. a crashed page, often don't repeat
+  INTERNAL: { retryable: true, httpStatus: 500 },
+};
+
+/** Thrown inside a scrape to end it with a specific code rather than one guessed from the exception. */
+export class ScrapeCodeError extends Error {
+  constructor(readonly code: ScrapeErrorCode, message: string) {
+    super(message);
+    this.name = 'ScrapeCodeError';
+  }
+}
+
+export function scrapeError(
+  code: ScrapeErrorCode,
+  phase: ScrapePhase,
+  message: string,
+  severity: ScrapeError['severity'] = 'fatal',
+): ScrapeError {
+  return { code, severity, phase, retryable: ERROR_CODES[code].retryable, message };
+}
+
+/** Turns whatever a scrape threw into a fatal error, from the phase it was in when it did. */
+export function classifyError(err: unknown, phase: ScrapePhase, cancelled: boolean): ScrapeError {
+  if (cancelled) return scrapeError('CANCELLED', phase, 'Scrape cancelled');
+  if (err instanceof ScrapeCodeError) return scrapeError(err.code, phase, err.message);
+
+  const message = err instanceof Error ? err.message : String(err);
+  // page.goto failing covers both network errors and navigation timeouts
+  if (phase === 'navigating') return scrapeError('NAVIGATION_FAILED', phase, message);
+  if (err instanceof Error && err.name === 'TimeoutError') return scrapeError('TIMEOUT', phase, message);
+  return scrapeError('INTERNAL', phase, message);
+}
+
+/**
+ * Reads what blocks the page from a collectPageDiagnostics entry: a captcha,
+ * login wall, rate limit, unavailable page or error screen. Null when nothing does.
+ */
+export function pageBlocker(diag: Record<string, unknown>, target: ScrapeTarget): { code: ScrapeErrorCode; message: string } | null {
+  if (diag.hasCaptcha) return { code: 'CAPTCHA_PRESENT', message: 'Facebook is showing a captcha' };
+  if (diag.hasLoginWall) return { code: 'LOGIN_WALL', message: 'Facebook is asking to log in' };
+  if (diag.hasRateLimit) return { code: 'RATE_LIMITED', message: 'Facebook is rate limiting requests' };
+  if (diag.hasContentUnavailable && target.kind === 'page') {
+    return { code: 'INVALID_PAGE_ID', message: `No Ad Library page is available for ${target.facebookPageId}` };
+  }
+  if (diag.hasErrorMessage) return { code: 'NAVIGATION_FAILED', message: 'Facebook showed an error page' };
+  return null;
+}
+
+/** The error that ended the run, or null when it succeeded (warnings aside). */
+export function fatalError(result: Pick<ScrapeResult, 'errors'>): ScrapeError | null {
+  return result.errors.find(e => e.severity === 'fatal') ?? null;
+}
+
+/** HTTP status for a finished run: 200 on success, otherwise the fatal error's, even for a partial run with ads in the body. */
+export function httpStatus(result: ScrapeResult): number {
+  const fatal = fatalError(result);
+  return fatal ? ERROR_CODES[fatal.code].httpStatus : 200;
+}
@@ -0,0 +1,113 @@
+import type { ScrapeFilters } from './types';
+
+// --- Ad Library search filters ---
+
+export const ACTIVE_STATUSES = ['active', 'inactive', 'all'] as const;
+export const MEDIA_TYPES = ['all', 'image', 'video', 'meme', 'image_and_meme', 'none'] as const;
+export const AD_TYPES = [
+  'all',
+  'political_and_issue_ads',
+  'housing_ads',
+  'employment_ads',
+  'financial_products_and_services_ads',
+] as const;
+export const PLATFORMS = ['facebook', 'instagram', 'messenger', 'audience_network'] as const;
+export const SORT_MODES = ['total_impressions', 'relevancy_monthly_grouped'] as const;
+export const SORT_DIRECTIONS = ['desc', 'asc'] as const;
+
+export const DEFAULT_FILTERS: ScrapeFilters = {
+  activeStatus: 'active',
+  countries: ['ALL'],
+  mediaType: 'all',
+  adType: 'all',
+  deliveryDateMin: null,
+  deliveryDateMax: null,
+  platforms: [],
+  sortMode: 'total_impressions',
+  sortDirection: 'desc',
+};
+
+function oneOf<T extends string>(value: unknown, allowed: readonly T[], field: string): T {
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new Error(`${field} must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+function isoDate(value: unknown, field: string): string | null {
+  if (value === undefined || value === null) return null;
+  const match = typeof value === 'string' ? value.match(/^(\d{4})-(\d{2})-(\d{2})$/) : null;
+  const [year, month, day] = (match ?? []).slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Rejects 2025-02-31 and friends, which Date.UTC would silently roll over
+  if (!match || date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new Error(`${field} must be a YYYY-MM-DD date`);
+  }
+  return match[0];
+}
+
+/**
+ * Validates the `filters` object from a request body, filling in defaults for
+ * anything omitted. Throws with a caller-facing message on invalid input.
+ */
+export function parseScrapeFilters(input: unknown): ScrapeFilters {
+  if (input === undefined || input === null) return { ...DEFAULT_FILTERS };
+  if (typeof input !== 'object' || Array.isArray(input)) throw new Error('filters must be an object');
+  const raw = input as Record<string, unknown>;
+  const unknownKeys = Object.keys(raw).filter(k => !Object.hasOwn(DEFAULT_FILTERS, k));
+  if (unknownKeys.length > 0) throw new Error(`Unknown filters: ${unknownKeys.join(', ')}`);
+  const filters: ScrapeFilters = { ...DEFAULT_FILTERS };
+
+  if (raw.activeStatus !== undefined) filters.activeStatus = oneOf(raw.activeStatus, ACTIVE_STATUSES, 'filters.activeStatus');
+  if (raw.mediaType !== undefined) filters.mediaType = oneOf(raw.mediaType, MEDIA_TYPES, 'filters.mediaType');
+  if (raw.adType !== undefined) filters.adType = oneOf(raw.adType, AD_TYPES, 'filters.adType');
+  if (raw.sortMode !== undefined) filters.sortMode = oneOf(raw.sortMode, SORT_MODES, 'filters.sortMode');
+  if (raw.sortDirection !== undefined) filters.sortDirection = oneOf(raw.sortDirection, SORT_DIRECTIONS, 'filters.sortDirection');
+
+  if (raw.countries !== undefined) {
+    const countries = typeof raw.countries === 'string' ? [raw.countries] : raw.countries;
+    if (!Array.isArray(countries) || countries.length === 0) {
+      throw new Error('filters.countries must be a non-empty list of ISO country codes');
+    }
+    filters.countries = countries.map(c => {
+      if (typeof c !== 'string' || !/^([A-Za-z]{2}|ALL)$/i.test(c)) {
+        throw new Error(`filters.countries contains an invalid country code: ${String(c)}`);
+      }
+      return c.toUpperCase();
+    });
+    if (filters.countries.includes('ALL') && filters.countries.length > 1) {
+      throw new Error('filters.countries cannot combine ALL with specific countries');
+    }
+  }
+
+  if (raw.platforms !== undefined) {
+    if (!Array.isArray(raw.platforms)) throw new Error('filters.platforms must be a list');
+    filters.platforms = [...new Set(raw.platforms.map(p => oneOf(p, PLATFORMS, 'filters.platforms[]')))];
+  }
+
+  filters.deliveryDateMin = isoDate(raw.deliveryDateMin, 'filters.deliveryDateMin');
+  filters.deliveryDateMax = isoDate(raw.deliveryDateMax, 'filters.deliveryDateMax');
+  if (filters.deliveryDateMin && filters.deliveryDateMax && filters.deliveryDateMin > filters.deliveryDateMax) {
+    throw new Error('filters.deliveryDateMin must not be after filters.deliveryDateMax');
+  }
+
+  return filters;
+}
+
+/** Writes the filters into Ad Library query-string parameters. */
+export function applyFilterParams(params: URLSearchParams, filters: ScrapeFilters): void {
+  params.set('active_status', filters.activeStatus);
+  params.set('ad_type', filters.adType);
+  params.set('media_type', filters.mediaType);
+  params.set('sort_data[mode]', filters.sortMode);
+  params.set('sort_data[direction]', filters.sortDirection);
+
+  if (filters.countries.length === 1) {
+    params.set('country', filters.countries[0]);
+  } else {
+    filters.countries.forEach((c, i) => params.set(`countries[${i}]`, c));
+  }
+  filters.platforms.forEach((p, i) => params.set(`publisher_platforms[${i}]`, p));
+  if (filters.deliveryDateMin) params.set('start_date[min]', filters.deliveryDateMin);
+  if (filters.deliveryDateMax) params.set('start_date[max]', filters.deliveryDateMax);
+}
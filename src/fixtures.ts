@@ -0,0 +1,60 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { BrowserContext, BrowserContextOptions, Page } from 'playwright-core';
+import { parseGraphQLResponse } from './graphql';
+import type { ScrapedAd, ScrapeFixture } from './types';
+
+// --- Scrape fixtures ---
+// Recording keeps everything a scrape saw: a HAR of its traffic, the DOM at
+// every extraction that found new ads, and each GraphQL exchange. Replaying
+// serves the HAR through Playwright routing and aborts anything it doesn't
+// hold, so extraction and pagination changes can be checked without touching
+// the live Ad Library (see tests/).
+//
+// Layout of a fixture directory:
+//   traffic.har.zip     all requests and responses
+//   dom/0001.html       page content, with the ads extracted from it in 0001.json
+//   graphql/0001.json   request and response bodies, with the ads parsed from them
+
+export const FIXTURE_HAR = 'traffic.har.zip';
+
+/** Context options that make the browser record the fixture's HAR. */
+export function fixtureContextOptions(fixture: ScrapeFixture): Partial<BrowserContextOptions> {
+  return fixture.mode === 'record' ? { recordHar: { path: join(fixture.dir, FIXTURE_HAR), mode: 'full' } } : {};
+}
+
+/** Serves every request of `context` from the fixture's HAR; anything it doesn't hold is aborted. */
+export async function replayFixture(context: BrowserContext, fixture: ScrapeFixture): Promise<void> {
+  await context.routeFromHAR(join(fixture.dir, FIXTURE_HAR), { notFound: 'abort' });
+}
+
+export interface FixtureRecorder {
+  snapshotDom(page: Page, ads: ScrapedAd[]): Promise<void>;
+  saveGraphQL(request: string, response: string, status: number): void;
+}
+
+function numbered(n: number): string {
+  return String(n).padStart(4, '0');
+}
+
+export function createRecorder(fixture: ScrapeFixture): FixtureRecorder {
+  mkdirSync(join(fixture.dir, 'dom'), { recursive: true });
+  mkdirSync(join(fixture.dir, 'graphql'), { recursive: true });
+  let domCount = 0;
+  let graphqlCount = 0;
+
+  return {
+    async snapshotDom(page, ads) {
+      const name = numbered(++domCount);
+      writeFileSync(join(fixture.dir, 'dom', `${name}.html`), await page.content());
+      writeFileSync(join(fixture.dir, 'dom', `${name}.json`), JSON.stringify({ url: page.url(), ads }, null, 2));
+    },
+    saveGraphQL(request, response, status) {
+      const { ads, nextCursor, hasNextPage } = parseGraphQLResponse(response);
+      writeFileSync(
+        join(fixture.dir, 'graphql', `${numbered(++graphqlCount)}.json`),
+        JSON.stringify({ status, request, response, ads, nextCursor, hasNextPage }, null, 2),
+      );
+    },
+  };
+}
@@ -0,0 +1,342 @@
+import { formatUnixDate, normalizeAdTiming } from './normalize';
+import type { AdAsset, ScrapedAd } from './types';
+import { decodeFacebookRedirect } from './urls';
+
+// --- GraphQL response models ---
+// Shapes of the ad archive nodes returned by /api/graphql/. Only the fields we
+// read are modelled; everything is optional because Facebook omits freely.
+
+export interface GraphQLImage {
+  original_image_url?: string | null;
+  resized_image_url?: string | null;
+}
+
+export interface GraphQLVideo {
+  video_hd_url?: string | null;
+  video_sd_url?: string | null;
+  video_preview_image_url?: string | null;
+}
+
+export interface GraphQLCard extends GraphQLImage, GraphQLVideo {
+  body?: string | null;
+  title?: string | null;
+  caption?: string | null;
+  cta_text?: string | null;
+  link_url?: string | null;
+}
+
+export interface GraphQLSnapshot {
+  snapshot_url?: string | null;
+  body?: { text?: string | null } | string | null;
+  title?: string | null;
+  caption?: string | null;
+  cta_text?: string | null;
+  link_url?: string | null;
+  page_id?: string | number | null;
+  page_name?: string | null;
+  page_profile_picture_url?: string | null;
+  images?: GraphQLImage[] | null;
+  videos?: GraphQLVideo[] | null;
+  cards?: GraphQLCard[] | null;
+  extra_images?: GraphQLImage[] | null;
+  extra_videos?: GraphQLVideo[] | null;
+}
+
+export interface GraphQLAdArchiveNode {
+  ad_archive_id: string | number;
+  start_date?: number | null;
+  end_date?: number | null;
+  is_active?: boolean | null;
+  page_id?: string | number | null;
+  page_name?: string | null;
+  impressions_with_index?: {
+    impressions_text?: string | null;
+    impressions_index?: number | null;
+  } | null;
+  snapshot?: GraphQLSnapshot | null;
+}
+
+export interface GraphQLParseResult {
+  ads: ScrapedAd[];
+  nodes: GraphQLAdArchiveNode[];
+  nextCursor: string | null;
+  hasNextPage: boolean | null;
+  documentCount: number;
+  diagnostics: Record<string, unknown>[];
+}
+
+// --- Payload splitting ---
+
+const HIJACK_PREFIX = 'for (;;);';
+
+/**
+ * Splits a raw /api/graphql/ body into its JSON documents. Facebook prefixes
+ * responses with "for (;;);" and streams deferred fragments as additional
+ * documents, one after another, usually newline separated.
+ */
+export function splitGraphQLPayload(body: string): { documents: unknown[]; diagnostics: Record<string, unknown>[] } {
+  const documents: unknown[] = [];
+  const diagnostics: Record<string, unknown>[] = [];
+  let i = 0;
+
+  while (i < body.length) {
+    if (/\s/.test(body[i])) {
+      i++;
+      continue;
+    }
+    if (body.startsWith(HIJACK_PREFIX, i)) {
+      i += HIJACK_PREFIX.length;
+      continue;
+    }
+
+    const end = body[i] === '{' || body[i] === '[' ? findValueEnd(body, i) : -1;
+    if (end === -1) {
+      // Not the start of a document (or an unterminated one) — skip to the next line
+      const nextLine = body.indexOf('\n', i);
+      const stop = nextLine === -1 ? body.length : nextLine;
+      diagnostics.push({ label: 'graphql-unparseable-chunk', offset: i, snippet: body.substring(i, Math.min(stop, i + 300)) });
+      i = stop;
+      continue;
+    }
+
+    const chunk = body.substring(i, end);
+    try {
+      documents.push(JSON.parse(chunk));
+    } catch (err) {
+      diagnostics.push({ label: 'graphql-invalid-json', offset: i, error: String(err), snippet: chunk.substring(0, 300) });
+    }
+    i = end;
+  }
+
+  return { documents, diagnostics };
+}
+
+/** Returns the index just past the object/array starting at `start`, or -1 if unterminated. */
+function findValueEnd(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{' || ch === '[') depth++;
+    else if (ch === '}' || ch === ']') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+
+  return -1;
+}
+
+// --- Tree walk ---
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isAdArchiveNode(value: Record<string, unknown>): boolean {
+  const id = value.ad_archive_id;
+  return (typeof id === 'string' && /^\d+$/.test(id)) || (typeof id === 'number' && Number.isFinite(id));
+}
+
+interface WalkState {
+  nodes: GraphQLAdArchiveNode[];
+  seenIds: Set<string>;
+  nextCursor: string | null;
+  hasNextPage: boolean | null;
+  errors: unknown[];
+  malformed: Record<string, unknown>[];
+}
+
+function walk(value: unknown, state: WalkState): void {
+  if (Array.isArray(value)) {
+    for (const item of value) walk(item, state);
+    return;
+  }
+  if (!isRecord(value)) return;
+
+  if ('ad_archive_id' in value) {
+    if (isAdArchiveNode(value)) {
+      const id = String(value.ad_archive_id);
+      if (!state.seenIds.has(id)) {
+        state.seenIds.add(id);
+        state.nodes.push(value as unknown as GraphQLAdArchiveNode);
+      }
+    } else {
+      state.malformed.push({ adArchiveId: value.ad_archive_id, keys: Object.keys(value).slice(0, 30) });
+    }
+  }
+
+  if (state.nextCursor === null) {
+    const cursor = value.forward_cursor ?? value.end_cursor;
+    if (typeof cursor === 'string' && cursor) state.nextCursor = cursor;
+  }
+  if (state.hasNextPage === null && typeof value.has_next_page === 'boolean') {
+    state.hasNextPage = value.has_next_page;
+  }
+  if (Array.isArray(value.errors)) state.errors.push(...value.errors);
+
+  for (const key of Object.keys(value)) {
+    const child = value[key];
+    if (typeof child === 'object' && child !== null) walk(child, state);
+  }
+}
+
+// --- Mapping ---
+
+/** Keeps only object entries — Facebook occasionally sends nulls inside these lists. */
+function asArray<T>(value: T[] | null | undefined): T[] {
+  return Array.isArray(value) ? value.filter(v => isRecord(v as unknown)) : [];
+}
+
+function firstUrl(...candidates: (string | null | undefined)[]): string | null {
+  const found = candidates.find(c => typeof c === 'string' && c.length > 0);
+  return found ? found.replace(/\\\//g, '/') : null;
+}
+
+function firstText(...candidates: (string | null | undefined)[]): string | null {
+  const found = candidates.find(c => typeof c === 'string' && c.trim().length > 0);
+  return found ? found.trim() : null;
+}
+
+/** Snapshot body is `{ text }` on most ads but a bare string on some older ones. */
+function snapshotBodyText(body: GraphQLSnapshot['body']): string | null {
+  if (typeof body === 'string') return firstText(body);
+  return body && typeof body === 'object' ? firstText(body.text) : null;
+}
+
+function videoAsset(video: GraphQLVideo, title: string | null = null, linkUrl: string | null = null): AdAsset | null {
+  const url = firstUrl(video.video_hd_url, video.video_sd_url);
+  return url ? { type: 'video', url, posterUrl: firstUrl(video.video_preview_image_url), title, linkUrl } : null;
+}
+
+function imageAsset(image: GraphQLImage, title: string | null = null, linkUrl: string | null = null): AdAsset | null {
+  const url = firstUrl(image.original_image_url, image.resized_image_url);
+  return url ? { type: 'image', url, posterUrl: null, title, linkUrl } : null;
+}
+
+/**
+ * Flattens cards, videos and images (including the DCO `extra_*` variants)
+ * into one ordered asset list. Cards come first since they carry their own
+ * title and link; duplicates by URL are dropped.
+ */
+export function collectSnapshotAssets(snapshot: GraphQLSnapshot): AdAsset[] {
+  const candidates: (AdAsset | null)[] = [];
+
+  for (const card of asArray(snapshot.cards)) {
+    const title = firstText(card.title);
+    const linkUrl = decodeFacebookRedirect(firstUrl(card.link_url));
+    candidates.push(videoAsset(card, title, linkUrl) ?? imageAsset(card, title, linkUrl));
+  }
+  for (const video of [...asArray(snapshot.videos), ...asArray(snapshot.extra_videos)]) {
+    candidates.push(videoAsset(video));
+  }
+  for (const image of [...asArray(snapshot.images), ...asArray(snapshot.extra_images)]) {
+    candidates.push(imageAsset(image));
+  }
+
+  const seen = new Set<string>();
+  const assets = candidates.filter((a): a is AdAsset => {
+    if (!a || seen.has(a.url)) return false;
+    seen.add(a.url);
+    return true;
+  });
+
+  // Last resort: the rendered snapshot page stands in for the creative
+  const snapshotUrl = firstUrl(snapshot.snapshot_url);
+  if (assets.length === 0 && snapshotUrl) {
+    assets.push({ type: 'image', url: snapshotUrl, posterUrl: null, title: null, linkUrl: null });
+  }
+
+  return assets;
+}
+
+/** Maps a single ad archive node to a ScrapedAd, or returns a reason it could not be mapped. */
+export function mapAdArchiveNode(node: GraphQLAdArchiveNode): { ad: ScrapedAd } | { reason: string } {
+  const snapshot = node.snapshot;
+  if (!snapshot || !isRecord(snapshot as unknown)) return { reason: 'missing-snapshot' };
+
+  const assets = collectSnapshotAssets(snapshot);
+  if (assets.length === 0) return { reason: 'no-media' };
+
+  const impressionsText = node.impressions_with_index?.impressions_text ?? null;
+  // Carousel ads leave the top-level creative fields empty and put them on the cards
+  const card = asArray(snapshot.cards)[0];
+
+  return {
+    ad: {
+      libraryId: String(node.ad_archive_id),
+      assetType: assets[0].type,
+      assets,
+      ...normalizeAdTiming(
+        formatUnixDate(node.start_date),
+        node.is_active === false ? formatUnixDate(node.end_date) : null,
+        impressionsText,
+      ),
+      lowImpressionCount: false,
+      bodyText: firstText(snapshotBodyText(snapshot.body), card?.body),
+      headline: firstText(snapshot.title, card?.title),
+      linkCaption: firstText(snapshot.caption, card?.caption),
+      ctaText: firstText(snapshot.cta_text, card?.cta_text),
+      landingUrl: decodeFacebookRedirect(firstUrl(snapshot.link_url, card?.link_url)),
+      pageId: firstText(String(node.page_id ?? snapshot.page_id ?? '')),
+      pageName: firstText(snapshot.page_name, node.page_name),
+      pageProfilePictureUrl: firstUrl(snapshot.page_profile_picture_url),
+    },
+  };
+}
+
+// --- Entry point ---
+
+/**
+ * Parses a raw /api/graphql/ response body into ScrapedAds plus the pagination
+ * cursor. Never throws — anything it can't make sense of lands in `diagnostics`.
+ */
+export function parseGraphQLResponse(body: string): GraphQLParseResult {
+  const { documents, diagnostics } = splitGraphQLPayload(body);
+  const state: WalkState = { nodes: [], seenIds: new Set(), nextCursor: null, hasNextPage: null, errors: [], malformed: [] };
+
+  for (const doc of documents) walk(doc, state);
+
+  const ads: ScrapedAd[] = [];
+  const unmapped: Record<string, unknown>[] = [];
+  for (const node of state.nodes) {
+    const mapped = mapAdArchiveNode(node);
+    if ('ad' in mapped) {
+      ads.push(mapped.ad);
+    } else {
+      unmapped.push({ adArchiveId: String(node.ad_archive_id), reason: mapped.reason, keys: Object.keys(node).slice(0, 30) });
+    }
+  }
+
+  if (state.errors.length > 0) {
+    diagnostics.push({ label: 'graphql-errors', errors: state.errors.slice(0, 5) });
+  }
+  if (state.malformed.length > 0) {
+    diagnostics.push({ label: 'graphql-malformed-ad-ids', nodes: state.malformed.slice(0, 10) });
+  }
+  if (unmapped.length > 0) {
+    diagnostics.push({ label: 'graphql-unmapped-ads', count: unmapped.length, nodes: unmapped.slice(0, 10) });
+  }
+  if (documents.length > 0 && state.nodes.length === 0) {
+    diagnostics.push({
+      label: 'graphql-no-ad-nodes',
+      topLevelKeys: documents.map(d => (isRecord(d) ? Object.keys(d) : typeof d)),
+    });
+  }
+
+  return {
+    ads,
+    nodes: state.nodes,
+    nextCursor: state.nextCursor,
+    hasNextPage: state.hasNextPage,
+    documentCount: documents.length,
+    diagnostics,
+  };
+}
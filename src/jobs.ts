@@ -0,0 +1,99 @@
+import { randomUUID } from 'crypto';
+import { fatalError } from './errors';
+import type { ScrapeOptions, ScrapeProgress, ScrapeResult } from './types';
+import { emitEvent } from './webhooks';
+
+// --- Async scrape jobs ---
+// Long scrapes outlive a load balancer's request timeout, so POST /jobs hands
+// back an ID immediately and the scrape runs in the background.
+
+export type JobStatus = 'running' | 'completed' | 'partial' | 'failed' | 'cancelled';
+
+export interface ScrapeJob {
+  id: string;
+  status: JobStatus;
+  strategy: string;
+  request: Record<string, unknown>;
+  progress: ScrapeProgress | null;
+  result: ScrapeResult | null;
+  error: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+export type JobRunner = (options: ScrapeOptions) => Promise<ScrapeResult>;
+
+const JOB_RETENTION_MS = 60 * 60 * 1000;
+
+const jobs = new Map<string, ScrapeJob>();
+const controllers = new Map<string, AbortController>();
+
+function finish(job: ScrapeJob, status: JobStatus): void {
+  job.status = status;
+  job.finishedAt = new Date().toISOString();
+  controllers.delete(job.id);
+  // Keep finished jobs around long enough to be polled, then forget them
+  setTimeout(() => jobs.delete(job.id), JOB_RETENTION_MS).unref();
+  if (status !== 'cancelled') emitEvent(status === 'failed' ? 'job.failed' : 'job.completed', jobSummary(job));
+}
+
+/** The job as sent in webhook payloads: ads are replaced by their library IDs to keep the body small. */
+function jobSummary(job: ScrapeJob): Record<string, unknown> {
+  if (!job.result) return { ...job };
+  const { ads, ...result } = job.result;
+  return { ...job, result: { ...result, libraryIds: ads.map(ad => ad.libraryId) } };
+}
+
+/** Starts `run` in the background and returns the job record straight away. */
+export function startJob(strategy: string, request: Record<string, unknown>, run: JobRunner): ScrapeJob {
+  const controller = new AbortController();
+  const job: ScrapeJob = {
+    id: randomUUID(),
+    status: 'running',
+    strategy,
+    request,
+    progress: null,
+    result: null,
+    error: null,
+    createdAt: new Date().toISOString(),
+    finishedAt: null,
+  };
+  jobs.set(job.id, job);
+  controllers.set(job.id, controller);
+
+  console.log(`[jobs] ${job.id} started (${strategy})`);
+
+  run({ signal: controller.signal, onProgress: progress => { job.progress = progress; } })
+    .then(result => {
+      job.result = result;
+      if (job.status === 'cancelled') return;
+      job.error = result.success ? null : fatalError(result)?.message ?? 'Scrape failed';
+      finish(job, result.status === 'success' ? 'completed' : result.status);
+      console.log(`[jobs] ${job.id} ${job.status} with ${result.totalFound} ads`);
+    })
+    .catch(err => {
+      if (job.status === 'cancelled') return;
+      job.error = String(err);
+      finish(job, 'failed');
+      console.error(`[jobs] ${job.id} failed: ${job.error}`);
+    });
+
+  return job;
+}
+
+export function getJob(id: string): ScrapeJob | null {
+  return jobs.get(id) ?? null;
+}
+
+/** Cancels a running job. Returns null for unknown IDs; finished jobs are returned unchanged. */
+export function cancelJob(id: string): ScrapeJob | null {
+  const job = jobs.get(id);
+  if (!job) return null;
+  if (job.status !== 'running') return job;
+
+  controllers.get(id)?.abort();
+  job.error = 'Scrape cancelled';
+  finish(job, 'cancelled');
+  console.log(`[jobs] ${job.id} cancelled`);
+  return job;
+}
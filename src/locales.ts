@@ -0,0 +1,189 @@
+// --- UI locales ---
+// The Ad Library renders labels, dates and buttons in the browser's language,
+// so scraping it as seen from Germany or Brazil means matching German or
+// Portuguese text. Each dictionary holds the strings the scrapers look for;
+// unknown regions fall back to the language's dictionary.
+
+export interface LocaleDictionary {
+  /** Label before the ad's ID, without the colon ("Library ID") */
+  libraryId: string;
+  /** Text before the start date of a running ad ("Started running on") */
+  startedRunning: string;
+  lowImpressionCount: string;
+  /** Label before the impression range, without the colon */
+  impressions: string;
+  /** Buttons that load more results */
+  seeMore: string[];
+  /** Cookie banner buttons that accept, in order of preference */
+  cookieButtons: string[];
+  /** Login wall buttons; a wall shows both */
+  logIn: string;
+  createAccount: string;
+  /** Text on the "temporarily blocked" screen, matched case-insensitively */
+  rateLimited: string[];
+  /** Heading of the generic error page, matched case-insensitively */
+  errorPage: string;
+  /** Shown for unknown pages and removed content, matched case-insensitively with either apostrophe */
+  contentUnavailable: string;
+  /** Month names as Facebook abbreviates them, January first */
+  months: string[];
+}
+
+export interface ScrapeLocale {
+  /** BCP 47 tag the browser runs with, e.g. "de-DE" */
+  tag: string;
+  language: LocaleLanguage;
+  dictionary: LocaleDictionary;
+}
+
+const DICTIONARIES = {
+  en: {
+    libraryId: 'Library ID',
+    startedRunning: 'Started running on',
+    lowImpressionCount: 'Low impression count',
+    impressions: 'Impressions',
+    seeMore: ['See more'],
+    cookieButtons: ['Allow all cookies', 'Accept All', 'Allow essential and optional cookies'],
+    logIn: 'Log in',
+    createAccount: 'Create new account',
+    rateLimited: ['rate limit', 'temporarily blocked'],
+    errorPage: 'Something went wrong',
+    contentUnavailable: "content isn't available",
+    months: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
+  },
+  de: {
+    libraryId: 'Bibliotheks-ID',
+    startedRunning: 'Erstmals geschaltet am',
+    lowImpressionCount: 'Geringe Anzahl an Impressionen',
+    impressions: 'Impressionen',
+    seeMore: ['Mehr ansehen', 'Mehr anzeigen'],
+    cookieButtons: ['Alle Cookies erlauben', 'Optionale und erforderliche Cookies erlauben'],
+    logIn: 'Anmelden',
+    createAccount: 'Neues Konto erstellen',
+    rateLimited: ['vorübergehend blockiert'],
+    errorPage: 'Etwas ist schiefgelaufen',
+    contentUnavailable: 'Inhalt ist momentan nicht verfügbar',
+    months: ['Jan', 'Feb', 'März', 'Apr', 'Mai', 'Juni', 'Juli', 'Aug', 'Sept', 'Okt', 'Nov', 'Dez'],
+  },
+  fr: {
+    libraryId: 'ID dans la bibliothèque',
+    startedRunning: 'Diffusion commencée le',
+    lowImpressionCount: 'Nombre d’impressions faible',
+    impressions: 'Impressions',
+    seeMore: ['Voir plus'],
+    cookieButtons: ['Autoriser tous les cookies', 'Autoriser les cookies essentiels et optionnels'],
+    logIn: 'Se connecter',
+    createAccount: 'Créer nouveau compte',
+    rateLimited: ['temporairement bloqué'],
+    errorPage: 'Un problème est survenu',
+    contentUnavailable: "contenu n'est pas disponible",
+    months: ['janv', 'févr', 'mars', 'avr', 'mai', 'juin', 'juil', 'août', 'sept', 'oct', 'nov', 'déc'],
+  },
+  es: {
+    libraryId: 'Identificador de la biblioteca',
+    startedRunning: 'Se empezó a publicar el',
+    lowImpressionCount: 'Número de impresiones bajo',
+    impressions: 'Impresiones',
+    seeMore: ['Ver más'],
+    cookieButtons: ['Permitir todas las cookies', 'Permitir cookies opcionales y esenciales'],
+    logIn: 'Iniciar sesión',
+    createAccount: 'Crear cuenta nueva',
+    rateLimited: ['bloqueado temporalmente'],
+    errorPage: 'Algo salió mal',
+    contentUnavailable: 'contenido no está disponible',
+    months: ['ene', 'feb', 'mar', 'abr', 'may', 'jun', 'jul', 'ago', 'sept', 'oct', 'nov', 'dic'],
+  },
+  pt: {
+    libraryId: 'Identificação da biblioteca',
+    startedRunning: 'Começou a ser veiculado em',
+    lowImpressionCount: 'Número baixo de impressões',
+    impressions: 'Impressões',
+    seeMore: ['Ver mais'],
+    cookieButtons: ['Permitir todos os cookies', 'Permitir cookies essenciais e opcionais'],
+    logIn: 'Entrar',
+    createAccount: 'Criar nova conta',
+    rateLimited: ['bloqueado temporariamente'],
+    errorPage: 'Algo deu errado',
+    contentUnavailable: 'conteúdo não está disponível',
+    months: ['jan', 'fev', 'mar', 'abr', 'mai', 'jun', 'jul', 'ago', 'set', 'out', 'nov', 'dez'],
+  },
+  it: {
+    libraryId: 'ID libreria',
+    startedRunning: 'Inserzione iniziata il',
+    lowImpressionCount: 'Numero di impression basso',
+    impressions: 'Impression',
+    seeMore: ['Mostra altro', 'Vedi altro'],
+    cookieButtons: ['Consenti tutti i cookie', 'Consenti cookie essenziali e facoltativi'],
+    logIn: 'Accedi',
+    createAccount: 'Crea nuovo account',
+    rateLimited: ['temporaneamente bloccato'],
+    errorPage: 'Si è verificato un problema',
+    contentUnavailable: 'contenuto non è disponibile',
+    months: ['gen', 'feb', 'mar', 'apr', 'mag', 'giu', 'lug', 'ago', 'set', 'ott', 'nov', 'dic'],
+  },
+} satisfies Record<string, LocaleDictionary>;
+
+export type LocaleLanguage = keyof typeof DICTIONARIES;
+export const LOCALE_LANGUAGES = Object.keys(DICTIONARIES) as LocaleLanguage[];
+
+/** Region used when only a language is given */
+const DEFAULT_REGIONS: Record<LocaleLanguage, string> = {
+  en: 'US',
+  de: 'DE',
+  fr: 'FR',
+  es: 'ES',
+  pt: 'BR',
+  it: 'IT',
+};
+
+export const DEFAULT_LOCALE = resolveLocale('en');
+
+/**
+ * Resolves "de", "de-AT" or "pt_BR" to a locale. Throws with a caller-facing
+ * message for languages without a dictionary.
+ */
+export function resolveLocale(input: string): ScrapeLocale {
+  const m = input.trim().match(/^([a-z]{2})(?:[-_]([a-z]{2}))?$/i);
+  const language = m?.[1].toLowerCase() as LocaleLanguage | undefined;
+  if (!m || !language || !LOCALE_LANGUAGES.includes(language)) {
+    throw new Error(`locale must be one of ${LOCALE_LANGUAGES.join(', ')}, optionally with a region (e.g. de-DE, pt-BR)`);
+  }
+  const region = (m[2] ?? DEFAULT_REGIONS[language]).toUpperCase();
+  return { tag: `${language}-${region}`, language, dictionary: DICTIONARIES[language] };
+}
+
+/**
+ * The locale's text for `key`, followed by the English one. Facebook leaves
+ * some strings untranslated, so scrapers look for either.
+ */
+export function localizedTexts(locale: ScrapeLocale, key: keyof Omit<LocaleDictionary, 'months'>): string[] {
+  return [...new Set([locale.dictionary[key], DICTIONARIES.en[key]].flat())];
+}
+
+/** Accept-Language header preferring the locale, then its bare language, then English. */
+export function acceptLanguage(locale: ScrapeLocale): string {
+  return locale.language === 'en'
+    ? `${locale.tag},en;q=0.9`
+    : `${locale.tag},${locale.language};q=0.9,en;q=0.8`;
+}
+
+/** What `navigator.languages` reports, in the same order as the header. */
+export function navigatorLanguages(locale: ScrapeLocale): string[] {
+  return [...new Set([locale.tag, locale.language, 'en'])];
+}
+
+/**
+ * Lowercased month names of `language` mapped to their 0-based month.
+ * English names are always included because Facebook falls back to English
+ * for strings a translation lacks.
+ */
+export function monthNames(language: LocaleLanguage): Map<string, number> {
+  const names = new Map<string, number>();
+  for (const lang of [language, 'en'] as LocaleLanguage[]) {
+    DICTIONARIES[lang].months.forEach((name, month) => {
+      const key = name.toLowerCase();
+      if (!names.has(key)) names.set(key, month);
+    });
+  }
+  return names;
+}
@@ -0,0 +1,252 @@
+import { execFile } from 'child_process';
+import type { AspectRatioClass, MediaMetadata, PerceptualHash } from './types';
+
+// --- Media metadata ---
+// The DOM only knows rendered sizes, and lazily loaded images often report 0,
+// so dimensions come from the downloaded bytes instead. Images are read from
+// their headers; videos go through ffprobe, with ffmpeg grabbing keyframes
+// and decoding pixels for perceptual hashes.
+
+const FFPROBE_PATH = process.env.FFPROBE_PATH || 'ffprobe';
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+/** 0 turns keyframe extraction off */
+const MEDIA_KEYFRAMES = envNonNegative('MEDIA_KEYFRAMES', 3);
+const MEDIA_TOOL_TIMEOUT_MS = 60_000;
+
+/**
+ * A number from the environment where 0 is meaningful, so unlike
+ * `Number(x) || fallback` it is let through. Unset, empty, invalid or
+ * negative values fall back.
+ */
+export function envNonNegative(name: string, fallback: number): number {
+  const raw = process.env[name]?.trim();
+  const value = Number(raw);
+  return raw && value >= 0 ? value : fallback;
+}
+
+/** Ratios we bucket into, as width / height. */
+const ASPECT_RATIOS: [AspectRatioClass, number][] = [
+  ['1:1', 1],
+  ['4:5', 4 / 5],
+  ['9:16', 9 / 16],
+  ['16:9', 16 / 9],
+];
+const ASPECT_TOLERANCE = 0.03;
+
+export function aspectRatioClass(width: number | null, height: number | null): AspectRatioClass | null {
+  if (!width || !height) return null;
+  const ratio = width / height;
+  const match = ASPECT_RATIOS.find(([, target]) => Math.abs(ratio - target) / target <= ASPECT_TOLERANCE);
+  return match ? match[0] : 'other';
+}
+
+// --- Images ---
+
+/** Reads format and pixel size from a PNG, GIF, JPEG or WebP header. Returns null for anything else. */
+export function probeImage(data: Buffer): { format: string; width: number; height: number } | null {
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47 && data.toString('ascii', 12, 16) === 'IHDR') {
+    return { format: 'png', width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  if (data.length >= 10 && data.toString('ascii', 0, 3) === 'GIF') {
+    return { format: 'gif', width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+
+  if (data.length >= 30 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') {
+    const chunk = data.toString('ascii', 12, 16);
+    if (chunk === 'VP8 ') {
+      return { format: 'webp', width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+      const bits = data.readUInt32LE(21);
+      return { format: 'webp', width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+      return { format: 'webp', width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+    }
+    return null;
+  }
+
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    // Walk the segments until a start-of-frame marker, which carries the size
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) return null;
+      const marker = data[offset + 1];
+      if (marker === 0xff) {
+        offset++;
+        continue;
+      }
+      const length = data.readUInt16BE(offset + 2);
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return { format: 'jpeg', width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + length;
+    }
+    return null;
+  }
+
+  return null;
+}
+
+export function describeImage(data: Buffer, mimeType: string): MediaMetadata {
+  const probed = probeImage(data);
+  return {
+    kind: 'image',
+    format: probed?.format ?? (mimeType.startsWith('image/') ? mimeType.slice(6) : null),
+    width: probed?.width ?? null,
+    height: probed?.height ?? null,
+    aspectRatio: aspectRatioClass(probed?.width ?? null, probed?.height ?? null),
+    durationSeconds: null,
+    codec: null,
+    keyframes: [],
+    perceptualHashes: [],
+  };
+}
+
+// --- Videos ---
+
+function run(command: string, args: string[], encoding: 'utf8' | 'buffer', input?: Buffer): Promise<string | Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      command,
+      args,
+      { encoding, timeout: MEDIA_TOOL_TIMEOUT_MS, maxBuffer: 64 * 1024 * 1024 },
+      (err, stdout) => (err ? reject(err) : resolve(stdout)),
+    );
+    // ffmpeg may stop reading early; an EPIPE here is not an error worth reporting
+    child.stdin?.on('error', () => {});
+    child.stdin?.end(input);
+  });
+}
+
+interface FfprobeStream {
+  codec_type?: string;
+  codec_name?: string;
+  width?: number;
+  height?: number;
+  tags?: { rotate?: string };
+  side_data_list?: { rotation?: number }[];
+}
+
+/** Duration, resolution and codec via ffprobe. Throws when ffprobe is missing or can't read the file. */
+export async function describeVideo(path: string): Promise<MediaMetadata> {
+  const output = await run(FFPROBE_PATH, [
+    '-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', path,
+  ], 'utf8');
+  const probe = JSON.parse(output as string) as {
+    streams?: FfprobeStream[];
+    format?: { format_name?: string; duration?: string };
+  };
+
+  const video = probe.streams?.find(stream => stream.codec_type === 'video');
+  let width = video?.width ?? null;
+  let height = video?.height ?? null;
+  // Phone footage is often stored landscape with a rotation flag
+  const rotation = Math.abs(Number(video?.tags?.rotate ?? video?.side_data_list?.find(d => d.rotation !== undefined)?.rotation ?? 0));
+  if (rotation === 90 || rotation === 270) [width, height] = [height, width];
+
+  const duration = Number(probe.format?.duration);
+  return {
+    kind: 'video',
+    format: probe.format?.format_name ?? null,
+    width,
+    height,
+    aspectRatio: aspectRatioClass(width, height),
+    durationSeconds: Number.isFinite(duration) ? Math.round(duration * 1000) / 1000 : null,
+    codec: video?.codec_name ?? null,
+    keyframes: [],
+    perceptualHashes: [],
+  };
+}
+
+/**
+ * JPEG frames spread across the video (10%, 50%, 90% for the default of 3).
+ * Input seeking without accurate_seek lands on the nearest keyframe, which is
+ * cheap and avoids grey half-decoded frames.
+ */
+export async function extractKeyframes(path: string, durationSeconds: number | null): Promise<Buffer[]> {
+  if (MEDIA_KEYFRAMES <= 0) return [];
+  const duration = durationSeconds ?? 0;
+  const times = MEDIA_KEYFRAMES === 1
+    ? [duration * 0.1]
+    : Array.from({ length: MEDIA_KEYFRAMES }, (_, i) => duration * (0.1 + (0.8 * i) / (MEDIA_KEYFRAMES - 1)));
+
+  const frames: Buffer[] = [];
+  for (const time of times) {
+    const frame = await run(FFMPEG_PATH, [
+      '-v', 'error', '-noaccurate_seek', '-ss', time.toFixed(3), '-i', path,
+      '-frames:v', '1', '-q:v', '3', '-f', 'image2pipe', '-vcodec', 'mjpeg', 'pipe:1',
+    ], 'buffer') as Buffer;
+    if (frame.length > 0) frames.push(frame);
+  }
+  return frames;
+}
+
+// --- Perceptual hashes ---
+// Re-encodes and slight crops change every byte but barely move these hashes,
+// so near-duplicate creatives end up a few bits apart (see clusters.ts).
+
+/** Decodes an image (or the first frame of anything ffmpeg reads) into 8-bit grayscale at `width`×`height`. */
+async function grayscale(image: Buffer, width: number, height: number): Promise<Buffer> {
+  const pixels = await run(FFMPEG_PATH, [
+    '-v', 'error', '-i', 'pipe:0', '-frames:v', '1',
+    '-vf', `scale=${width}:${height}:flags=area,format=gray`, '-f', 'rawvideo', 'pipe:1',
+  ], 'buffer', image) as Buffer;
+  if (pixels.length !== width * height) throw new Error(`ffmpeg returned ${pixels.length} bytes, expected ${width * height}`);
+  return pixels;
+}
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((Number(bits[i]) << 3) | (Number(bits[i + 1]) << 2) | (Number(bits[i + 2]) << 1) | Number(bits[i + 3])).toString(16);
+  }
+  return hex;
+}
+
+/** dHash: whether each pixel is brighter than its right neighbour on a 9×8 thumbnail. */
+function differenceHash(pixels: Buffer): string {
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) bits.push(pixels[y * 9 + x] > pixels[y * 9 + x + 1]);
+  }
+  return bitsToHex(bits);
+}
+
+/** pHash: the 8×8 lowest frequencies of a 32×32 DCT, each compared with their median. */
+function dctHash(pixels: Buffer): string {
+  const N = 32;
+  const cos = Array.from({ length: 8 }, (_, u) => Array.from({ length: N }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * N))));
+  const coefficients: number[] = [];
+  for (let u = 0; u < 8; u++) {
+    for (let v = 0; v < 8; v++) {
+      let sum = 0;
+      for (let y = 0; y < N; y++) {
+        for (let x = 0; x < N; x++) sum += pixels[y * N + x] * cos[u][y] * cos[v][x];
+      }
+      coefficients.push(sum);
+    }
+  }
+  // The DC term only carries overall brightness, so it stays out of the median
+  const median = [...coefficients.slice(1)].sort((a, b) => a - b)[31];
+  return bitsToHex(coefficients.map(c => c > median));
+}
+
+/** Both hashes for one image or frame. Throws when ffmpeg is missing or can't decode it. */
+export async function perceptualHash(image: Buffer): Promise<PerceptualHash> {
+  const [small, large] = await Promise.all([grayscale(image, 9, 8), grayscale(image, 32, 32)]);
+  return { dHash: differenceHash(small), pHash: dctHash(large) };
+}
+
+/** Number of differing bits between two hex hashes of equal length. */
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
@@ -0,0 +1,149 @@
+import { DEFAULT_LOCALE, monthNames, type LocaleLanguage } from './locales';
+import type { ImpressionBounds, ScrapedAd } from './types';
+
+// --- Date and impression normalisation ---
+// The DOM shows "12 Jan 2025" and "10K-50K" (or "12. März 2025" and
+// "10.000-50.000" in German); the GraphQL path has Unix timestamps. Both go
+// through here so every ad carries the same ISO dates and numeric bounds, with
+// Facebook's original text kept alongside.
+
+export type AdTiming = Pick<
+  ScrapedAd,
+  'startDate' | 'endDate' | 'startDateText' | 'endDateText' | 'activeDays' | 'impressions' | 'impressionBounds'
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month, day));
+  // Rejects 31 Feb and friends, which Date.UTC would silently roll over
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/** Words that sit between the parts of a date, as in "12 de jan de 2025" */
+const DATE_FILLERS = new Set(['de', 'del']);
+
+function monthIndex(token: string, months: Map<string, number>): number | null {
+  const exact = months.get(token);
+  if (exact !== undefined) return exact;
+  // Full names ("January", "janvier") start with the abbreviation
+  for (const [name, month] of months) {
+    if (name.length >= 3 && token.startsWith(name)) return month;
+  }
+  return null;
+}
+
+/**
+ * "12 Jan 2025", "Jan 12, 2025", "12. März 2025" or "12 de jan. de 2025" to
+ * "2025-01-12", with month names in `language` or English; null when
+ * unrecognised. Text around the date is ignored.
+ */
+export function parseAdLibraryDate(text: string | null, language: LocaleLanguage = 'en'): string | null {
+  if (!text) return null;
+  const months = monthNames(language);
+  const tokens = text.toLowerCase().split(/[\s.,]+/).filter(t => t && !DATE_FILLERS.has(t));
+  const isDay = (t: string | undefined) => !!t && /^\d{1,2}$/.test(t);
+  const isYear = (t: string | undefined) => !!t && /^\d{4}$/.test(t);
+
+  for (let i = 0; i < tokens.length; i++) {
+    const month = monthIndex(tokens[i], months);
+    if (month === null) continue;
+    if (isDay(tokens[i - 1]) && isYear(tokens[i + 1])) {
+      return isoDate(Number(tokens[i + 1]), month, Number(tokens[i - 1]));
+    }
+    if (isDay(tokens[i + 1]) && isYear(tokens[i + 2])) {
+      return isoDate(Number(tokens[i + 2]), month, Number(tokens[i + 1]));
+    }
+  }
+  return null;
+}
+
+/** Formats a Unix timestamp the way the Ad Library displays dates, in UTC so it matches the DOM path. */
+export function formatUnixDate(seconds: number | null | undefined): string | null {
+  if (typeof seconds !== 'number' || !Number.isFinite(seconds) || seconds <= 0) return null;
+  const d = new Date(seconds * 1000);
+  return `${d.getUTCDate()} ${DEFAULT_LOCALE.dictionary.months[d.getUTCMonth()]} ${d.getUTCFullYear()}`;
+}
+
+/** Count suffixes as abbreviated in the supported locales ("10K", "10 Tsd.", "10 mil", "1 Mio.") */
+const COUNT_SUFFIXES: Record<string, number> = {
+  '': 1,
+  k: 1e3,
+  tsd: 1e3,
+  mil: 1e3,
+  m: 1e6,
+  mio: 1e6,
+  mln: 1e6,
+  mi: 1e6,
+  b: 1e9,
+  mrd: 1e9,
+};
+
+function parseCount(text: string): number | null {
+  const m = text.match(/^(\d+(?:[.,]\d+)*)([a-z]*)\.?$/i);
+  const multiplier = m ? COUNT_SUFFIXES[m[2].toLowerCase()] : undefined;
+  if (!m || multiplier === undefined) return null;
+  // A separator before exactly three digits groups thousands ("1,000", "1.000");
+  // anything else is a decimal point ("1.5K", "1,5 Mio.")
+  const value = Number(m[1].replace(/[.,](?=\d{3}(?:[.,]|$))/g, '').replace(',', '.'));
+  return Number.isFinite(value) ? Math.round(value * multiplier) : null;
+}
+
+/**
+ * "<1K", "10K-50K", "1M+", ">1M", "1,000-4,999" or "10.000-50.000" to numeric
+ * bounds; `upper` is null when open-ended. A leading "Impressions:" label in
+ * any language is dropped.
+ */
+export function parseImpressions(text: string | null): ImpressionBounds | null {
+  if (!text) return null;
+  const compact = text.replace(/^[^:<>\d]*:/, '').replace(/\s/g, '').replace(/[–—]/g, '-');
+
+  if (compact.startsWith('<')) {
+    const upper = parseCount(compact.slice(1));
+    return upper === null ? null : { lower: 0, upper };
+  }
+  if (compact.startsWith('>') || compact.endsWith('+')) {
+    const lower = parseCount(compact.replace(/^>|\+$/g, ''));
+    return lower === null ? null : { lower, upper: null };
+  }
+
+  const [from, to, ...rest] = compact.split('-');
+  if (rest.length > 0) return null;
+  const lower = parseCount(from);
+  if (lower === null) return null;
+  if (to === undefined) return { lower, upper: lower };
+  const upper = parseCount(to);
+  return upper === null || upper < lower ? null : { lower, upper };
+}
+
+/** Days the ad ran, counting both ends; ads without an end date count up to `now`. */
+export function activeDays(startDate: string | null, endDate: string | null, now = new Date()): number | null {
+  if (!startDate) return null;
+  const start = Date.parse(startDate);
+  const end = endDate ? Date.parse(endDate) : Date.parse(now.toISOString().slice(0, 10));
+  if (Number.isNaN(start) || Number.isNaN(end) || end < start) return null;
+  return Math.round((end - start) / DAY_MS) + 1;
+}
+
+/** Builds the normalised date and impression fields from the text Facebook shows in `language`. */
+export function normalizeAdTiming(
+  startDateText: string | null,
+  endDateText: string | null,
+  impressions: string | null,
+  language: LocaleLanguage = 'en',
+  now = new Date(),
+): AdTiming {
+  const startDate = parseAdLibraryDate(startDateText, language);
+  const endDate = parseAdLibraryDate(endDateText, language);
+  return {
+    startDate,
+    endDate,
+    startDateText,
+    endDateText,
+    // An end date we couldn't read must not be mistaken for a still-running ad
+    activeDays: endDateText && !endDate ? null : activeDays(startDate, endDate, now),
+    impressions,
+    impressionBounds: parseImpressions(impressions),
+  };
+}
@@ -0,0 +1,352 @@
+import type { BrowserContextOptions, Page } from 'playwright-core';
+import { acceptLanguage, DEFAULT_LOCALE, localizedTexts, navigatorLanguages, type ScrapeLocale } from './locales';
+import { normalizeAdTiming, type AdTiming } from './normalize';
+import { AD_CARD_SELECTOR, adCardLocator, candidateCss, matchSelectors, SELECTORS } from './selectors';
+import type { AdAsset, ScrapedAd } from './types';
+import { decodeFacebookRedirect } from './urls';
+
+// --- Page helpers ---
+// Everything that touches the Ad Library page itself: browser context setup,
+// stealth patches, the cookie banner, and reading ads and diagnostics out of
+// the DOM. Shared by the scrape engine and the diagnostic endpoints.
+
+/** The Ad Library renders dates in the browser's timezone; UTC matches how GraphQL timestamps are formatted. */
+const BROWSER_TIMEZONE = 'UTC';
+const USER_AGENT = 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36';
+
+/**
+ * Context options for a desktop Chrome on Linux. With `clientHints`, the
+ * Accept-Language and sec-ch-ua headers a real Chrome sends are added too.
+ */
+export function contextOptions(locale: ScrapeLocale = DEFAULT_LOCALE, clientHints = false): BrowserContextOptions {
+  return {
+    locale: locale.tag,
+    timezoneId: BROWSER_TIMEZONE,
+    viewport: { width: 1440, height: 900 },
+    userAgent: USER_AGENT,
+    ...(clientHints && {
+      extraHTTPHeaders: {
+        'Accept-Language': acceptLanguage(locale),
+        'sec-ch-ua': '"Google Chrome";v="131", "Chromium";v="131", "Not_A Brand";v="24"',
+        'sec-ch-ua-mobile': '?0',
+        'sec-ch-ua-platform': '"Linux"',
+      },
+    }),
+  };
+}
+
+/** Matches buttons showing any of `texts`, for labels that depend on the UI locale. */
+export function buttonSelector(texts: string[], roleButtons = false): string {
+  return texts
+    .flatMap(text => {
+      const quoted = JSON.stringify(text);
+      return roleButtons ? [`button:has-text(${quoted})`, `[role="button"]:has-text(${quoted})`] : [`button:has-text(${quoted})`];
+    })
+    .join(', ');
+}
+
+export async function dismissCookieConsent(page: Page, locale: ScrapeLocale = DEFAULT_LOCALE): Promise<void> {
+  try {
+    const btn = page.locator(buttonSelector(localizedTexts(locale, 'cookieButtons'))).first();
+    if (await btn.isVisible({ timeout: 3_000 })) {
+      await btn.click();
+      console.log('[scraper] Dismissed cookie consent');
+      await page.waitForTimeout(1_000);
+    }
+  } catch {
+    // No consent dialog
+  }
+}
+
+export async function waitForAdsToRender(page: Page, locale: ScrapeLocale = DEFAULT_LOCALE): Promise<void> {
+  try {
+    await adCardLocator(page, locale).waitFor({ timeout: 15_000 });
+    await page.waitForTimeout(2_000);
+    console.log('[scraper] Ad containers detected');
+  } catch {
+    console.warn('[scraper] Ad containers did not appear within 15s');
+  }
+}
+
+export async function collectPageDiagnostics(
+  page: Page,
+  label: string,
+  locale: ScrapeLocale = DEFAULT_LOCALE,
+): Promise<Record<string, unknown>> {
+  try {
+    const selectors = await matchSelectors(page, locale);
+    const diag = await page.evaluate(({ logIn, createAccount, rateLimited, errorPage, contentUnavailable }) => {
+      const body = document.body;
+      const pageText = body.innerText || '';
+      // Facebook writes "isn’t" with a typographic apostrophe in some locales and builds
+      const lowerText = pageText.toLowerCase().replace(/’/g, "'");
+      const allButtons = Array.from(document.querySelectorAll('button, [role="button"]'));
+      const seeMoreButton = allButtons.find(b => /see more|load more|show more/i.test(b.textContent || ''));
+      const allDivs = Array.from(document.querySelectorAll('div'));
+
+      return {
+        scrollHeight: body.scrollHeight,
+        clientHeight: document.documentElement.clientHeight,
+        scrollY: window.scrollY,
+        hasRateLimit: rateLimited.some(text => lowerText.includes(text.toLowerCase())),
+        hasCaptcha: !!document.querySelector('iframe[src*="captcha"]') || pageText.includes('CAPTCHA'),
+        hasLoginWall: logIn.some(text => pageText.includes(text)) && createAccount.some(text => pageText.includes(text)),
+        hasErrorMessage: [...errorPage, ...contentUnavailable].some(text => lowerText.includes(text.toLowerCase())),
+        hasContentUnavailable: contentUnavailable.some(text => lowerText.includes(text.toLowerCase())),
+        hasLoadingSpinner: allDivs.some(d => d.getAttribute('role') === 'progressbar' || d.className.includes('loading')),
+        hasSeeMoreButton: seeMoreButton ? (seeMoreButton.textContent || '').trim() : null,
+        title: document.title,
+        url: window.location.href,
+      };
+    }, {
+      logIn: localizedTexts(locale, 'logIn'),
+      createAccount: localizedTexts(locale, 'createAccount'),
+      rateLimited: localizedTexts(locale, 'rateLimited'),
+      errorPage: localizedTexts(locale, 'errorPage'),
+      contentUnavailable: localizedTexts(locale, 'contentUnavailable'),
+    });
+    const summary = { adContainerCount: selectors.adCardCount, ...diag, selectors };
+    console.log(`[DIAG:${label}]`, JSON.stringify(summary));
+    return { label, ...summary };
+  } catch (err) {
+    console.warn(`[DIAG:${label}] Failed:`, err);
+    return { label, error: String(err) };
+  }
+}
+
+export async function extractAdvertiserName(page: Page): Promise<string | null> {
+  return page.evaluate((candidates) => {
+    for (const css of candidates) {
+      const name = Array.from(document.querySelectorAll(css)).map(el => (el.textContent || '').trim()).find(Boolean);
+      if (name) return name;
+    }
+    return null;
+  }, SELECTORS.advertiserName.flatMap(c => (c.css ? [c.css] : [])));
+}
+
+export async function extractAdsFromDom(page: Page, locale: ScrapeLocale = DEFAULT_LOCALE): Promise<ScrapedAd[]> {
+  // Without metadata there are no library IDs to read, so nothing would be extracted
+  const selectors = await matchSelectors(page, locale);
+  const metadataSelector = candidateCss('metadata', selectors.metadata);
+  if (!metadataSelector) return [];
+
+  const ads = await page.evaluate(({ cardSelector, metadataSelector, ...labels }) => {
+    const adContainers = document.querySelectorAll(cardSelector);
+    // Dates and impressions stay as displayed here and are normalised below
+    const ads: (Omit<ScrapedAd, keyof AdTiming> & { startDate: string | null; endDate: string | null; impressions: string | null })[] = [];
+
+    const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const anyOf = (texts: string[]) => texts.map(escape).join('|');
+    const libraryIdPattern = new RegExp(`(?:${anyOf(labels.libraryId)}):\\s*([0-9]+)`);
+    const startedPattern = new RegExp(`(?:${anyOf(labels.startedRunning)})\\s+([^·]+)`);
+    const impressionsPattern = new RegExp(`(?:${anyOf(labels.impressions)}):\\s*(.+)`);
+    // "12 Jan 2025 - 3 Feb 2025", "12. März 2025 – 3. Apr. 2025": two years either side of a dash
+    const dateRangePattern = /[0-9]{4}\s+[-–]\s+.*[0-9]{4}/;
+
+    const isOutbound = (a: HTMLAnchorElement) =>
+      a.href.includes('l.facebook.com/l.php') || (/^https?:/.test(a.href) && !a.hostname.endsWith('facebook.com'));
+
+    // Splits a link preview into its domain caption, headline and CTA button label
+    const describeLink = (link: HTMLAnchorElement | null | undefined) => {
+      if (!link) return { caption: null, headline: null, cta: null };
+      const ctaEl = Array.from(link.querySelectorAll('[role="button"], button')).pop();
+      const cta = (ctaEl?.textContent || '').trim() || null;
+      const lines = (link.innerText || '').split('\n').map(l => l.trim()).filter(l => l && l !== cta);
+      const caption = lines.find(l => /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(l)) || null;
+      const headline = lines.find(l => l !== caption) || null;
+      return { caption, headline, cta };
+    };
+
+    adContainers.forEach((adCard) => {
+      const metadataSpans = Array.from(adCard.querySelectorAll(metadataSelector));
+      const libraryIdMatch = metadataSpans.map(s => (s.textContent || '').match(libraryIdPattern)).find(Boolean);
+      const libraryId = libraryIdMatch ? libraryIdMatch[1] : null;
+      if (!libraryId) return;
+
+      let startDate: string | null = null;
+      let endDate: string | null = null;
+
+      const dateRangeSpan = metadataSpans.find(s => dateRangePattern.test(s.textContent || ''));
+      if (dateRangeSpan?.textContent) {
+        const parts = dateRangeSpan.textContent.split(/\s+[-–]\s+/);
+        if (parts.length === 2) {
+          startDate = parts[0].trim();
+          endDate = parts[1].trim();
+        }
+      } else {
+        const startSpan = metadataSpans.find(s => startedPattern.test(s.textContent || ''));
+        if (startSpan?.textContent) {
+          const m = startSpan.textContent.match(startedPattern);
+          startDate = m ? m[1].trim() : null;
+        }
+      }
+
+      const allSpans = Array.from(adCard.querySelectorAll('span'));
+      const lowImpressionCount = allSpans.some(s => labels.lowImpressionCount.includes((s.textContent || '').trim()));
+
+      let impressions: string | null = null;
+      const impSpan = allSpans.find(s => impressionsPattern.test(s.textContent || ''));
+      if (impSpan) {
+        const m = (impSpan.textContent || '').match(impressionsPattern);
+        impressions = m ? m[1].trim() : null;
+      }
+      if (!impressions) {
+        const countSpan = allSpans.find(s => /^<[0-9]+$/.test((s.textContent || '').trim()));
+        impressions = countSpan ? (countSpan.textContent || '').trim() : null;
+      }
+
+      // Creative text — body copy sits in a pre-wrap div, the link preview in an outbound anchor
+      const bodyEl = adCard.querySelector('div[style*="white-space: pre-wrap"], div[style*="white-space:pre-wrap"]');
+      const bodyText = (bodyEl as HTMLElement | null)?.innerText.trim() || null;
+
+      const anchors = Array.from(adCard.querySelectorAll('a[href]')) as HTMLAnchorElement[];
+      const linkEl = anchors.find(a => a.href.includes('l.facebook.com/l.php')) || anchors.find(isOutbound);
+      const landingUrl = linkEl?.href || null;
+
+      const { caption: linkCaption, headline, cta: ctaText } = describeLink(linkEl);
+
+      const pageLink = anchors.find(a =>
+        /facebook\.com\/(?!ads\/|l\.php)/.test(a.href) && (a.textContent || '').trim().length > 0
+      );
+      const pageName = (pageLink?.textContent || '').trim() || null;
+      const pageIdMatch = (pageLink?.href || '').match(/facebook\.com\/(?:profile\.php\?id=)?([0-9]{5,})/)
+        || anchors.map(a => a.href.match(/view_all_page_id=([0-9]+)/)).find(Boolean);
+      const pageId = pageIdMatch ? pageIdMatch[1] : null;
+      const profileImg = Array.from(adCard.querySelectorAll('img')).find(img =>
+        (pageName && img.alt === pageName) || (img.width > 0 && img.width <= 60)
+      );
+      const pageProfilePictureUrl = profileImg?.src || null;
+
+      const creative = { bodyText, headline, linkCaption, ctaText, landingUrl, pageId, pageName, pageProfilePictureUrl };
+
+      // Every video and sizeable image in display order — carousels and DCO ads carry several
+      const assets: AdAsset[] = [];
+      const seenUrls = new Set<string>();
+      const posters = new Set(Array.from(adCard.querySelectorAll('video')).map(v => v.poster).filter(Boolean));
+      const mediaEls = Array.from(adCard.querySelectorAll('video, img')) as (HTMLVideoElement | HTMLImageElement)[];
+
+      for (const el of mediaEls) {
+        const isVideo = el instanceof HTMLVideoElement;
+        const src = el.currentSrc || el.src;
+        if (!src || src.startsWith('data:') || seenUrls.has(src)) continue;
+        if (!isVideo && (el === profileImg || posters.has(src) || (el.width > 0 && el.width <= 60))) continue;
+        seenUrls.add(src);
+
+        // Closest outbound link around the media — each carousel card has its own
+        let cardLink: HTMLAnchorElement | null = null;
+        for (let node: Element | null = el; node && node !== adCard && !cardLink; node = node.parentElement) {
+          cardLink = node instanceof HTMLAnchorElement && isOutbound(node)
+            ? node
+            : (Array.from(node.querySelectorAll('a[href]')) as HTMLAnchorElement[]).find(isOutbound) || null;
+        }
+
+        assets.push({
+          type: isVideo ? 'video' : 'image',
+          url: src,
+          posterUrl: isVideo ? (el as HTMLVideoElement).poster || null : null,
+          title: describeLink(cardLink).headline,
+          linkUrl: cardLink?.href || null,
+        });
+      }
+
+      if (assets.length > 0) {
+        ads.push({ libraryId, assetType: assets[0].type, assets, startDate, endDate, lowImpressionCount, impressions, ...creative });
+      }
+    });
+
+    return ads;
+  }, {
+    cardSelector: AD_CARD_SELECTOR,
+    metadataSelector,
+    libraryId: localizedTexts(locale, 'libraryId'),
+    startedRunning: localizedTexts(locale, 'startedRunning'),
+    lowImpressionCount: localizedTexts(locale, 'lowImpressionCount'),
+    impressions: localizedTexts(locale, 'impressions'),
+  });
+
+  return ads.map(ad => ({
+    ...ad,
+    ...normalizeAdTiming(ad.startDate, ad.endDate, ad.impressions, locale.language),
+    landingUrl: decodeFacebookRedirect(ad.landingUrl),
+    assets: ad.assets.map(asset => ({ ...asset, linkUrl: decodeFacebookRedirect(asset.linkUrl) })),
+  }));
+}
+
+// --- Stealth ---
+
+/**
+ * Under tsx (`npm run dev`, `npm run record-fixture`) esbuild's keepNames wraps
+ * named helpers inside page.evaluate callbacks in a `__name()` call the page
+ * doesn't define. Kept a string so it isn't rewritten itself.
+ */
+const NAME_HELPER_SHIM = 'globalThis.__name ??= fn => fn;';
+
+/** The minimal patch: only hides `navigator.webdriver`. */
+export async function hideWebdriver(page: Page): Promise<void> {
+  await page.addInitScript(NAME_HELPER_SHIM);
+  await page.addInitScript(() => {
+    Object.defineProperty(navigator, 'webdriver', { get: () => false });
+  });
+}
+
+export async function applyStealthScripts(page: Page, locale: ScrapeLocale = DEFAULT_LOCALE): Promise<void> {
+  await page.addInitScript(NAME_HELPER_SHIM);
+  await page.addInitScript((languages) => {
+    // Navigator core properties
+    Object.defineProperty(navigator, 'webdriver', { get: () => false });
+    Object.defineProperty(navigator, 'languages', { get: () => languages });
+    Object.defineProperty(navigator, 'platform', { get: () => 'Linux x86_64' });
+    Object.defineProperty(navigator, 'hardwareConcurrency', { get: () => 8 });
+    Object.defineProperty(navigator, 'deviceMemory', { get: () => 8 });
+    Object.defineProperty(navigator, 'maxTouchPoints', { get: () => 0 });
+
+    // Fake plugins (headless has zero — dead giveaway)
+    Object.defineProperty(navigator, 'plugins', {
+      get: () => {
+        const arr = [
+          { name: 'Chrome PDF Plugin', filename: 'internal-pdf-viewer', description: 'Portable Document Format', length: 1 },
+          { name: 'Chrome PDF Viewer', filename: 'mhjfbmdgcfjbbpaeojofohoefgiehjai', description: '', length: 1 },
+          { name: 'Native Client', filename: 'internal-nacl-plugin', description: '', length: 1 },
+        ];
+        return Object.assign(arr, {
+          namedItem: (name: string) => arr.find(p => p.name === name) || null,
+          refresh: () => {},
+        });
+      },
+    });
+
+    // Chrome runtime stub (missing in headless = detected)
+    const w = window as any;
+    w.chrome = {
+      runtime: { connect: () => {}, sendMessage: () => {}, id: undefined },
+      loadTimes: () => ({}),
+      csi: () => ({}),
+    };
+
+    // Permissions API override
+    const origQuery = navigator.permissions.query.bind(navigator.permissions);
+    navigator.permissions.query = (params: any) =>
+      params.name === 'notifications'
+        ? Promise.resolve({ state: Notification.permission } as PermissionStatus)
+        : origQuery(params);
+
+    // WebGL — override SwiftShader (headless giveaway) with real GPU strings
+    const getParam = WebGLRenderingContext.prototype.getParameter;
+    WebGLRenderingContext.prototype.getParameter = function (p: number) {
+      if (p === 37445) return 'Intel Inc.';
+      if (p === 37446) return 'Intel Iris OpenGL Engine';
+      return getParam.call(this, p);
+    };
+    const getParam2 = WebGL2RenderingContext.prototype.getParameter;
+    WebGL2RenderingContext.prototype.getParameter = function (p: number) {
+      if (p === 37445) return 'Intel Inc.';
+      if (p === 37446) return 'Intel Iris OpenGL Engine';
+      return getParam2.call(this, p);
+    };
+
+    // Network connection info (missing in some headless envs)
+    Object.defineProperty(navigator, 'connection', {
+      get: () => ({ effectiveType: '4g', rtt: 50, downlink: 10, saveData: false }),
+    });
+  }, navigatorLanguages(locale));
+}
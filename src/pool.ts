@@ -0,0 +1,204 @@
+import { chromium, type Browser, type BrowserContext, type BrowserContextOptions } from 'playwright-core';
+
+// --- Browser pool ---
+// Every scrape used to launch its own Chromium; a handful of parallel requests
+// was enough to OOM the container. Browsers are now shared, each job gets a
+// fresh context, and at most POOL_MAX_CONCURRENCY jobs hold one at a time.
+
+const POOL_MAX_CONCURRENCY = Number(process.env.POOL_MAX_CONCURRENCY) || 2;
+const POOL_MAX_BROWSERS = Number(process.env.POOL_MAX_BROWSERS) || 1;
+const POOL_MAX_USES_PER_BROWSER = Number(process.env.POOL_MAX_USES_PER_BROWSER) || 25;
+
+export const LAUNCH_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-gpu',
+  '--disable-features=VizDisplayCompositor',
+  '--disable-blink-features=AutomationControlled',
+  '--window-size=1440,900',
+];
+
+export interface BrowserLease {
+  browser: Browser;
+  context: BrowserContext;
+  /** Closes the context and frees the slot. Safe to call more than once. */
+  release: () => Promise<void>;
+}
+
+interface PooledBrowser {
+  id: number;
+  browser: Browser;
+  uses: number;
+  active: number;
+  retiring: boolean;
+  closing: boolean;
+  launchedAt: string;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (err: unknown) => void;
+}
+
+const browsers: PooledBrowser[] = [];
+const waiters: Waiter[] = [];
+let activeLeases = 0;
+let nextBrowserId = 1;
+let launching: Promise<PooledBrowser> | null = null;
+const counters = { launched: 0, recycled: 0, crashed: 0, leases: 0 };
+
+// --- Slots ---
+
+function waitForSlot(signal?: AbortSignal): Promise<void> {
+  signal?.throwIfAborted();
+  if (activeLeases < POOL_MAX_CONCURRENCY) {
+    activeLeases++;
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      const idx = waiters.indexOf(waiter);
+      if (idx !== -1) waiters.splice(idx, 1);
+      reject(signal?.reason ?? new Error('Aborted while waiting for a browser'));
+    };
+    const waiter: Waiter = {
+      resolve: () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      },
+      reject,
+    };
+    waiters.push(waiter);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function releaseSlot(): void {
+  // Hand the slot straight to the next waiter so a new caller can't jump the queue
+  const next = waiters.shift();
+  if (next) next.resolve();
+  else activeLeases--;
+}
+
+// --- Browsers ---
+
+async function launchBrowser(): Promise<PooledBrowser> {
+  const browser = await chromium.launch({ headless: true, args: LAUNCH_ARGS });
+  const pooled: PooledBrowser = {
+    id: nextBrowserId++,
+    browser,
+    uses: 0,
+    active: 0,
+    retiring: false,
+    closing: false,
+    launchedAt: new Date().toISOString(),
+  };
+  counters.launched++;
+
+  browser.on('disconnected', () => {
+    const idx = browsers.indexOf(pooled);
+    if (idx !== -1) browsers.splice(idx, 1);
+    if (!pooled.closing) {
+      counters.crashed++;
+      console.warn(`[pool] Browser #${pooled.id} disconnected unexpectedly (${pooled.active} active contexts)`);
+    }
+  });
+
+  browsers.push(pooled);
+  console.log(`[pool] Launched browser #${pooled.id}`);
+  return pooled;
+}
+
+async function pickBrowser(): Promise<PooledBrowser> {
+  const usable = browsers.filter(b => !b.retiring && b.browser.isConnected());
+  const idle = usable.find(b => b.active === 0);
+  if (idle) return idle;
+
+  if (usable.length + (launching ? 1 : 0) < POOL_MAX_BROWSERS || usable.length === 0) {
+    if (!launching) {
+      launching = launchBrowser().finally(() => {
+        launching = null;
+      });
+    }
+    return launching;
+  }
+
+  return usable.reduce((least, b) => (b.active < least.active ? b : least));
+}
+
+async function retireIfDone(pooled: PooledBrowser): Promise<void> {
+  if (!pooled.retiring || pooled.active > 0 || pooled.closing) return;
+  pooled.closing = true;
+  const idx = browsers.indexOf(pooled);
+  if (idx !== -1) browsers.splice(idx, 1);
+  counters.recycled++;
+  console.log(`[pool] Recycling browser #${pooled.id} after ${pooled.uses} uses`);
+  await pooled.browser.close().catch(() => {});
+}
+
+// --- Public API ---
+
+/**
+ * Waits for a free slot, then opens a fresh context on a pooled browser.
+ * Aborting `signal` while queued rejects without ever taking a slot.
+ */
+export async function acquireContext(contextOptions: BrowserContextOptions, signal?: AbortSignal): Promise<BrowserLease> {
+  await waitForSlot(signal);
+
+  let pooled: PooledBrowser | null = null;
+  let context: BrowserContext;
+  try {
+    pooled = await pickBrowser();
+    pooled.uses++;
+    pooled.active++;
+    if (pooled.uses >= POOL_MAX_USES_PER_BROWSER) pooled.retiring = true;
+    context = await pooled.browser.newContext(contextOptions);
+  } catch (err) {
+    if (pooled) {
+      pooled.active--;
+      // A browser that can't open contexts is no good to anyone
+      pooled.retiring = true;
+      await retireIfDone(pooled);
+    }
+    releaseSlot();
+    throw err;
+  }
+
+  counters.leases++;
+  const owner = pooled;
+  let released = false;
+
+  return {
+    browser: owner.browser,
+    context,
+    release: async () => {
+      if (released) return;
+      released = true;
+      await context.close().catch(() => {});
+      owner.active--;
+      releaseSlot();
+      await retireIfDone(owner);
+    },
+  };
+}
+
+export function getPoolStatus(): Record<string, unknown> {
+  return {
+    maxConcurrency: POOL_MAX_CONCURRENCY,
+    maxBrowsers: POOL_MAX_BROWSERS,
+    maxUsesPerBrowser: POOL_MAX_USES_PER_BROWSER,
+    activeLeases,
+    queued: waiters.length,
+    browsers: browsers.map(b => ({
+      id: b.id,
+      uses: b.uses,
+      activeContexts: b.active,
+      retiring: b.retiring,
+      connected: b.browser.isConnected(),
+      launchedAt: b.launchedAt,
+    })),
+    ...counters,
+  };
+}
@@ -0,0 +1,112 @@
+// --- Page reference resolution ---
+// Turns whatever an analyst pastes (page URL, vanity handle, Ad Library link)
+// into the numeric page ID the Ad Library needs.
+
+export type PageReference =
+  | { kind: 'id'; facebookPageId: string; source: 'numeric' | 'ad-library-url' | 'page-url' }
+  | { kind: 'vanity'; vanity: string };
+
+export interface PageResolution {
+  input: string;
+  facebookPageId: string;
+  source: 'numeric' | 'ad-library-url' | 'page-url' | 'vanity';
+  vanity: string | null;
+  advertiserName: string | null;
+  resolvedAt: string;
+  cached: boolean;
+}
+
+const RESOLUTION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Path segments on facebook.com that are never a page handle
+const RESERVED_PATHS = new Set([
+  'ads', 'groups', 'events', 'watch', 'marketplace', 'gaming', 'login', 'login.php',
+  'share', 'sharer', 'story.php', 'photo.php', 'photo', 'hashtag', 'search', 'help',
+]);
+
+const VANITY_PATTERN = /^[A-Za-z0-9.\-]{2,100}$/;
+
+/**
+ * Classifies a page reference without touching the network. Throws when the
+ * input can't possibly name a page (e.g. a keyword search URL).
+ */
+export function parsePageReference(input: string): PageReference {
+  const trimmed = input.trim().replace(/^@/, '');
+  if (/^[0-9]+$/.test(trimmed)) return { kind: 'id', facebookPageId: trimmed, source: 'numeric' };
+
+  const looksLikeUrl = /^(https?:\/\/)?([a-z0-9-]+\.)*(facebook|fb)\.com\//i.test(trimmed);
+  if (!looksLikeUrl) {
+    if (VANITY_PATTERN.test(trimmed)) return { kind: 'vanity', vanity: trimmed.toLowerCase() };
+    throw new Error(`Not a Facebook page ID, URL or handle: ${input}`);
+  }
+
+  const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  if (segments[0] === 'ads' && segments[1] === 'library') {
+    const pageId = url.searchParams.get('view_all_page_id');
+    if (pageId && /^[0-9]+$/.test(pageId)) return { kind: 'id', facebookPageId: pageId, source: 'ad-library-url' };
+    throw new Error('Ad Library URL does not contain a view_all_page_id');
+  }
+
+  const profileId = url.searchParams.get('id');
+  if (segments[0] === 'profile.php' && profileId && /^[0-9]+$/.test(profileId)) {
+    return { kind: 'id', facebookPageId: profileId, source: 'page-url' };
+  }
+
+  // /pages/Name/123, /people/Name/123, /p/Name-123/
+  if (['pages', 'people', 'p'].includes(segments[0])) {
+    const idMatch = segments.slice(1).join('/').match(/([0-9]{5,})\/?$/);
+    if (idMatch) return { kind: 'id', facebookPageId: idMatch[1], source: 'page-url' };
+  }
+
+  const handle = segments[0];
+  if (handle && /^[0-9]+$/.test(handle)) return { kind: 'id', facebookPageId: handle, source: 'page-url' };
+  if (handle && !RESERVED_PATHS.has(handle.toLowerCase()) && VANITY_PATTERN.test(handle)) {
+    return { kind: 'vanity', vanity: handle.toLowerCase() };
+  }
+
+  throw new Error(`Could not find a page in URL: ${input}`);
+}
+
+/** Pulls the page ID out of a page's HTML. Newer "profile" pages expose it as the delegate page. */
+export function extractPageIdFromHtml(html: string): string | null {
+  const patterns = [
+    /"delegate_page"\s*:\s*\{\s*"id"\s*:\s*"([0-9]+)"/,
+    /"delegate_page_id"\s*:\s*"([0-9]+)"/,
+    /"pageID"\s*:\s*"([0-9]+)"/,
+    /fb:\/\/(?:page|profile)\/(?:\?id=)?([0-9]+)/,
+    /"page_id"\s*:\s*"([0-9]+)"/,
+  ];
+  for (const pattern of patterns) {
+    const m = html.match(pattern);
+    if (m) return m[1];
+  }
+  return null;
+}
+
+// --- Cache ---
+
+const resolutionCache = new Map<string, { resolution: PageResolution; expiresAt: number }>();
+
+function cacheKey(ref: PageReference): string {
+  return ref.kind === 'id' ? `id:${ref.facebookPageId}` : `vanity:${ref.vanity}`;
+}
+
+export function getCachedResolution(ref: PageReference): PageResolution | null {
+  const key = cacheKey(ref);
+  const entry = resolutionCache.get(key);
+  if (!entry) return null;
+  if (entry.expiresAt < Date.now()) {
+    resolutionCache.delete(key);
+    return null;
+  }
+  return { ...entry.resolution, cached: true };
+}
+
+export function cacheResolution(ref: PageReference, resolution: PageResolution): void {
+  const expiresAt = Date.now() + RESOLUTION_TTL_MS;
+  resolutionCache.set(cacheKey(ref), { resolution, expiresAt });
+  // Also index by ID so a later lookup by the numeric ID reuses the metadata
+  resolutionCache.set(`id:${resolution.facebookPageId}`, { resolution, expiresAt });
+}
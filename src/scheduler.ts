@@ -0,0 +1,213 @@
+import { randomUUID } from 'crypto';
+import { fatalError } from './errors';
+import { parseScrapeFilters } from './filters';
+import type { JobRunner } from './jobs';
+import {
+  completeWatchlistRun,
+  dueWatchlistPages,
+  getWatchlist,
+  markWatchlistPageRunning,
+  resetRunningWatchlistPages,
+  saveWatchlist,
+  type Watchlist,
+  type WatchlistInput,
+} from './store';
+
+// --- Watchlist scheduler ---
+// Replaces the per-page cron jobs: each watchlist names the pages to scrape and
+// how often, and every page keeps its own next-run time in the store so the
+// schedule picks up where it left off after a restart.
+
+const SCHEDULER_CONCURRENCY = Number(process.env.SCHEDULER_CONCURRENCY) || 2;
+const SCHEDULER_TICK_MS = Number(process.env.SCHEDULER_TICK_MS) || 30_000;
+
+export const WATCHLIST_STRATEGIES = ['v1', 'v2', 'v3', 'auto'] as const;
+
+const WATCHLIST_DEFAULTS: WatchlistInput = {
+  name: '',
+  pageIds: [],
+  filters: parseScrapeFilters(undefined),
+  strategy: 'v3',
+  adLimit: 400,
+  intervalMinutes: 24 * 60,
+  jitterMinutes: 30,
+  enabled: true,
+};
+
+const MAX_PAGES_PER_WATCHLIST = 1000;
+
+/** Builds the scrape for one page of a watchlist. */
+export type WatchlistRunner = (watchlist: Watchlist, pageId: string) => JobRunner;
+
+function positiveInt(value: unknown, field: string, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`${field} must be an integer between ${min} and ${max}`);
+  }
+  return value;
+}
+
+/**
+ * Validates a watchlist body. With `existing`, omitted fields keep their
+ * current values (PATCH); otherwise defaults apply. Throws with a
+ * caller-facing message on invalid input.
+ */
+export function parseWatchlistInput(input: unknown, existing?: WatchlistInput): WatchlistInput {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) throw new Error('Body must be an object');
+  const raw = input as Record<string, unknown>;
+  const unknownKeys = Object.keys(raw).filter(k => !Object.hasOwn(WATCHLIST_DEFAULTS, k));
+  if (unknownKeys.length > 0) throw new Error(`Unknown fields: ${unknownKeys.join(', ')}`);
+  const watchlist: WatchlistInput = { ...(existing ?? WATCHLIST_DEFAULTS) };
+
+  if (raw.name !== undefined) {
+    if (typeof raw.name !== 'string' || !raw.name.trim()) throw new Error('name must be a non-empty string');
+    watchlist.name = raw.name.trim();
+  }
+  if (!watchlist.name) throw new Error('name is required');
+
+  if (raw.pageIds !== undefined) {
+    if (!Array.isArray(raw.pageIds)) throw new Error('pageIds must be a list of numeric page IDs');
+    const pageIds = raw.pageIds.map(id => (typeof id === 'number' ? String(id) : id));
+    const invalid = pageIds.filter(id => typeof id !== 'string' || !/^[0-9]+$/.test(id));
+    if (invalid.length > 0) throw new Error(`pageIds contains invalid page IDs: ${invalid.map(String).join(', ')}`);
+    watchlist.pageIds = [...new Set(pageIds as string[])];
+  }
+  if (watchlist.pageIds.length === 0) throw new Error('pageIds must contain at least one page ID');
+  if (watchlist.pageIds.length > MAX_PAGES_PER_WATCHLIST) {
+    throw new Error(`pageIds cannot hold more than ${MAX_PAGES_PER_WATCHLIST} pages`);
+  }
+
+  if (raw.filters !== undefined) watchlist.filters = parseScrapeFilters(raw.filters);
+  if (raw.strategy !== undefined) {
+    if (!WATCHLIST_STRATEGIES.includes(raw.strategy as Watchlist['strategy'])) {
+      throw new Error(`strategy must be one of: ${WATCHLIST_STRATEGIES.join(', ')}`);
+    }
+    watchlist.strategy = raw.strategy as Watchlist['strategy'];
+  }
+  if (raw.adLimit !== undefined) watchlist.adLimit = positiveInt(raw.adLimit, 'adLimit', 1, 1000);
+  if (raw.intervalMinutes !== undefined) {
+    watchlist.intervalMinutes = positiveInt(raw.intervalMinutes, 'intervalMinutes', 15, 30 * 24 * 60);
+  }
+  if (raw.jitterMinutes !== undefined) {
+    watchlist.jitterMinutes = positiveInt(raw.jitterMinutes, 'jitterMinutes', 0, 24 * 60);
+  }
+  if (raw.enabled !== undefined) {
+    if (typeof raw.enabled !== 'boolean') throw new Error('enabled must be a boolean');
+    watchlist.enabled = raw.enabled;
+  }
+
+  return watchlist;
+}
+
+/** A random offset of up to `jitterMinutes`, so 200 pages added at once don't all fire together. */
+function jitterMs(jitterMinutes: number): number {
+  return Math.floor(Math.random() * jitterMinutes * 60_000);
+}
+
+function firstRunAt(input: WatchlistInput): () => string {
+  return () => new Date(Date.now() + jitterMs(input.jitterMinutes)).toISOString();
+}
+
+export function createWatchlist(input: WatchlistInput): Watchlist {
+  return saveWatchlist(randomUUID(), input, firstRunAt(input));
+}
+
+/** Returns null for unknown IDs. Pages already on the list keep their schedule. */
+export function updateWatchlist(id: string, body: unknown): Watchlist | null {
+  const existing = getWatchlist(id);
+  if (!existing) return null;
+  const input = parseWatchlistInput(body, existing);
+  return saveWatchlist(id, input, firstRunAt(input));
+}
+
+// --- Loop ---
+
+let runner: WatchlistRunner | null = null;
+let timer: NodeJS.Timeout | null = null;
+const running = new Set<string>();
+
+async function runPage(watchlist: Watchlist, pageId: string): Promise<void> {
+  const key = `${watchlist.id}:${pageId}`;
+  running.add(key);
+  const startedAt = new Date().toISOString();
+  let runId: string | null = null;
+  let status: string;
+  let error: string | null = null;
+
+  console.log(`[scheduler] ${watchlist.name}: scraping page ${pageId}`);
+  try {
+    const result = await runner!(watchlist, pageId)({});
+    runId = result.runId ?? null;
+    status = result.status;
+    error = result.success ? null : fatalError(result)?.message ?? 'Scrape failed';
+  } catch (err) {
+    status = 'failed';
+    error = String(err);
+  }
+
+  const nextRunAt = new Date(Date.now() + watchlist.intervalMinutes * 60_000 + jitterMs(watchlist.jitterMinutes));
+  try {
+    completeWatchlistRun(
+      { watchlistId: watchlist.id, pageId, runId, status, error, startedAt, finishedAt: new Date().toISOString() },
+      nextRunAt.toISOString(),
+    );
+  } catch (err) {
+    console.error(`[scheduler] Failed to record run for page ${pageId}: ${err}`);
+  } finally {
+    running.delete(key);
+  }
+  console.log(`[scheduler] ${watchlist.name}: page ${pageId} ${status}, next run at ${nextRunAt.toISOString()}`);
+}
+
+function tick(): void {
+  const free = SCHEDULER_CONCURRENCY - running.size;
+  if (free <= 0) return;
+
+  let due: ReturnType<typeof dueWatchlistPages>;
+  try {
+    due = dueWatchlistPages(free);
+  } catch (err) {
+    console.error(`[scheduler] Failed to load due pages: ${err}`);
+    return;
+  }
+
+  for (const { watchlist, pageId } of due) {
+    try {
+      markWatchlistPageRunning(watchlist.id, pageId);
+    } catch (err) {
+      console.error(`[scheduler] Failed to mark page ${pageId} running: ${err}`);
+      continue;
+    }
+    runPage(watchlist, pageId)
+      .finally(tick)
+      .catch(err => console.error(`[scheduler] Run of page ${pageId} failed: ${err}`));
+  }
+}
+
+/**
+ * Starts polling for due pages. Pages left marked as running by a previous
+ * process never finished, so they are released and run again.
+ */
+export function startScheduler(run: WatchlistRunner): void {
+  if (timer) return;
+  runner = run;
+  const released = resetRunningWatchlistPages();
+  if (released > 0) console.log(`[scheduler] Released ${released} pages interrupted by a restart`);
+  timer = setInterval(tick, SCHEDULER_TICK_MS);
+  timer.unref();
+  tick();
+  console.log(`[scheduler] Started (concurrency ${SCHEDULER_CONCURRENCY}, tick ${SCHEDULER_TICK_MS}ms)`);
+}
+
+/** Checks for due pages right away instead of waiting for the next tick. */
+export function nudgeScheduler(): void {
+  if (timer) setImmediate(tick);
+}
+
+export function getSchedulerStatus(): Record<string, unknown> {
+  return {
+    started: timer !== null,
+    concurrency: SCHEDULER_CONCURRENCY,
+    tickMs: SCHEDULER_TICK_MS,
+    running: [...running],
+  };
+}
@@ -0,0 +1,151 @@
+import type { Locator, Page } from 'playwright-core';
+import { DEFAULT_LOCALE, localizedTexts, type ScrapeLocale } from './locales';
+
+// --- Selector registry ---
+// Facebook's class names are generated and change whenever it reships its CSS,
+// after which every class-chain selector silently matches nothing. All
+// selectors the scrapers use live here, each with fallbacks in priority order
+// that don't depend on class names. Which candidate matched is reported, and a
+// page showing library IDs that no class-chain container matches is drift:
+// the fallbacks may still find the ads, but the registry needs updating.
+
+/** Bump when a class chain is updated after Facebook reships its CSS */
+export const SELECTOR_REGISTRY_VERSION = 1;
+
+export interface SelectorCandidate {
+  /** Reported in diagnostics when this candidate is the one that matched */
+  name: string;
+  /** `classes` candidates are Facebook's generated class chains; `structural` ones rely on markup and text alone */
+  kind: 'classes' | 'structural';
+  /** CSS selector, or null for cards found from their "Library ID:" label */
+  css: string | null;
+}
+
+export interface SelectorRegistry {
+  /** One ad card in the results grid */
+  adCard: SelectorCandidate[];
+  /** Metadata lines inside a card: library ID, run dates */
+  metadata: SelectorCandidate[];
+  /** Advertiser name in the header of a page search */
+  advertiserName: SelectorCandidate[];
+}
+
+export const SELECTORS: SelectorRegistry = {
+  adCard: [
+    { name: 'card-classes', kind: 'classes', css: 'div.x1plvlek.xryxfnj.x1gzqxud.x178xt8z.x1lun4ml' },
+    { name: 'card-library-id-text', kind: 'structural', css: null },
+  ],
+  metadata: [
+    { name: 'metadata-classes', kind: 'classes', css: 'span.x8t9es0.xw23nyj.xo1l8bm.x63nzvj.x108nfp6.xq9mrsl.x1h4wwuj.xeuugli' },
+    { name: 'metadata-leaf-spans', kind: 'structural', css: 'span:not(:has(*))' },
+  ],
+  advertiserName: [
+    { name: 'advertiser-classes', kind: 'classes', css: 'div.x8t9es0.x1ldc4aq.x1xlr1w8.x1cgboj8.x4hq6eo.xq9mrsl.x1yc453h.x1h4wwuj.xeuugli' },
+    { name: 'advertiser-heading', kind: 'structural', css: '[role="main"] [role="heading"][aria-level="1"], [role="main"] h1' },
+  ],
+};
+
+/** Set on every card matchSelectors found, so later page code can query them directly */
+export const AD_CARD_ATTRIBUTE = 'data-scraper-ad-card';
+export const AD_CARD_SELECTOR = `[${AD_CARD_ATTRIBUTE}]`;
+
+/** How far up from a "Library ID:" label a card can end, when found by text */
+const MAX_CARD_DEPTH = 12;
+
+export interface SelectorMatch {
+  version: number;
+  /** Name of the card candidate that matched, or null when none did */
+  adCard: string | null;
+  adCardCount: number;
+  metadata: string | null;
+  advertiserName: string | null;
+  /** "Library ID: <n>" occurrences in the page text */
+  libraryIdsInText: number;
+  /** Library IDs are on the page but no `classes` card candidate matched */
+  drift: boolean;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function libraryIdSource(locale: ScrapeLocale): string {
+  return `(?:${localizedTexts(locale, 'libraryId').map(escapeRegExp).join('|')}):\\s*[0-9]+`;
+}
+
+/**
+ * Resolves the registry against the page: marks every ad card with
+ * AD_CARD_ATTRIBUTE (clearing earlier marks) and reports which candidates
+ * matched. Extraction calls this first, so marks always reflect the current DOM.
+ */
+export async function matchSelectors(page: Page, locale: ScrapeLocale = DEFAULT_LOCALE): Promise<SelectorMatch> {
+  // No named helpers inside: tsx (npm run dev) wraps them in a __name() call the page doesn't define
+  const match = await page.evaluate(({ registry, libraryIdSource, attribute, maxDepth }) => {
+    const libraryIdPattern = new RegExp(libraryIdSource);
+    const allLibraryIds = new RegExp(libraryIdSource, 'g');
+
+    document.querySelectorAll(`[${attribute}]`).forEach(el => el.removeAttribute(attribute));
+    let cards: Element[] = [];
+    let adCard: (typeof registry.adCard)[number] | null = null;
+    for (const candidate of registry.adCard) {
+      let found: Element[];
+      if (candidate.css) {
+        found = Array.from(document.querySelectorAll(candidate.css));
+      } else {
+        // Climbs from each label to the largest ancestor holding no other card's label
+        const labels = Array.from(document.querySelectorAll('span, div')).filter(el =>
+          el.children.length === 0 && libraryIdPattern.test(el.textContent || '')
+        );
+        const byLabel = new Set<Element>();
+        for (const label of labels) {
+          let card = label;
+          for (let depth = 0; depth < maxDepth; depth++) {
+            const parent = card.parentElement;
+            if (!parent || parent === document.body || parent.getAttribute('role') === 'main') break;
+            if (((parent.textContent || '').match(allLibraryIds) || []).length > 1) break;
+            card = parent;
+          }
+          byLabel.add(card);
+        }
+        found = Array.from(byLabel);
+      }
+      if (found.length > 0) {
+        cards = found;
+        adCard = candidate;
+        break;
+      }
+    }
+    cards.forEach(card => card.setAttribute(attribute, ''));
+
+    const metadata = registry.metadata.find(c => c.css && cards.some(card => card.querySelector(c.css!)));
+    const advertiserName = registry.advertiserName.find(c =>
+      c.css && Array.from(document.querySelectorAll(c.css)).some(el => (el.textContent || '').trim())
+    );
+    return {
+      adCard: adCard?.name ?? null,
+      adCardKind: adCard?.kind ?? null,
+      adCardCount: cards.length,
+      metadata: metadata?.name ?? null,
+      advertiserName: advertiserName?.name ?? null,
+      libraryIdsInText: ((document.body.textContent || '').match(allLibraryIds) || []).length,
+    };
+  }, { registry: SELECTORS, libraryIdSource: libraryIdSource(locale), attribute: AD_CARD_ATTRIBUTE, maxDepth: MAX_CARD_DEPTH });
+
+  const { adCardKind, ...rest } = match;
+  return {
+    version: SELECTOR_REGISTRY_VERSION,
+    ...rest,
+    drift: match.libraryIdsInText > 0 && adCardKind !== 'classes',
+  };
+}
+
+/** CSS of the named candidate, for page code that needs the selector matchSelectors chose. */
+export function candidateCss(group: keyof SelectorRegistry, name: string | null): string | null {
+  return SELECTORS[group].find(c => c.name === name)?.css ?? null;
+}
+
+/** Matches the first ad card by any CSS candidate or by its "Library ID:" label, for waiting on render. */
+export function adCardLocator(page: Page, locale: ScrapeLocale = DEFAULT_LOCALE): Locator {
+  const css = SELECTORS.adCard.flatMap(c => (c.css ? [c.css] : [])).join(', ');
+  return page.locator(css).or(page.getByText(new RegExp(libraryIdSource(locale)))).first();
+}
@@ -0,0 +1,967 @@
+import { randomUUID } from 'crypto';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { DatabaseSync } from 'node:sqlite';
+import { findCluster, representativeHash, type ClusterCandidate } from './clusters';
+import { diffAds } from './diff';
+import type {
+  MediaMetadata,
+  RunDiff,
+  RunDiffSummary,
+  ScrapedAd,
+  ScrapeError,
+  ScrapeFilters,
+  ScrapeResult,
+  ScrapeStrategyName,
+  ScrapeTarget,
+} from './types';
+
+// --- Persistent ad store ---
+// Every scrape run is recorded along with the ads it saw, so we know when an
+// ad first showed up for a page and when we last saw it running.
+
+const DB_PATH = process.env.DB_PATH || 'data/scraper.db';
+
+export interface StoredRun {
+  id: string;
+  pageId: string | null;
+  query: string | null;
+  strategy: string;
+  status: ScrapeResult['status'];
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  totalFound: number;
+  advertiserName: string | null;
+  filters: ScrapeResult['filters'];
+  errors: ScrapeError[];
+  blockedRequests: string[];
+  failure: ScrapeResult['failure'];
+}
+
+export interface StoredAd {
+  libraryId: string;
+  pageId: string | null;
+  pageName: string | null;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  firstRunId: string;
+  lastRunId: string;
+  timesSeen: number;
+  ad: ScrapedAd;
+}
+
+export interface StoredAsset {
+  sha256: string;
+  mimeType: string;
+  size: number;
+  backend: 'local' | 's3';
+  createdAt: string;
+}
+
+export interface StoredCluster {
+  id: string;
+  kind: 'image' | 'video';
+  pHash: string;
+  dHash: string;
+  createdAt: string;
+  size: number;
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  pageIds: string[];
+  filters: ScrapeFilters;
+  strategy: ScrapeStrategyName;
+  adLimit: number;
+  intervalMinutes: number;
+  jitterMinutes: number;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WatchlistInput = Omit<Watchlist, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface WatchlistPageState {
+  pageId: string;
+  nextRunAt: string;
+  runningSince: string | null;
+  lastRunAt: string | null;
+  lastRunId: string | null;
+  lastStatus: string | null;
+}
+
+export interface WatchlistRun {
+  watchlistId: string;
+  pageId: string;
+  runId: string | null;
+  status: string;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string;
+  /** Change counts against the page's previous run; null when there was nothing to compare */
+  changes: RunDiffSummary | null;
+}
+
+export interface Webhook {
+  id: string;
+  url: string;
+  /** Only returned when the webhook is created */
+  secret?: string;
+  events: string[];
+  enabled: boolean;
+  createdAt: string;
+}
+
+/** `dead` deliveries used up their retries and wait for a manual redeliver. */
+export type DeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: string;
+  payload: unknown;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  lastStatusCode: number | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+let db: DatabaseSync | null = null;
+
+/** Opens the database on first use so the server still boots when nothing touches the store. */
+function getDb(): DatabaseSync {
+  if (db) return db;
+  mkdirSync(dirname(DB_PATH), { recursive: true });
+  db = new DatabaseSync(DB_PATH);
+  db.exec(`
+    PRAGMA journal_mode = WAL;
+    PRAGMA foreign_keys = ON;
+
+    CREATE TABLE IF NOT EXISTS runs (
+      id TEXT PRIMARY KEY,
+      page_id TEXT,
+      query TEXT,
+      strategy TEXT NOT NULL,
+      status TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      finished_at TEXT NOT NULL,
+      duration_ms INTEGER NOT NULL,
+      total_found INTEGER NOT NULL,
+      advertiser_name TEXT,
+      filters TEXT NOT NULL,
+      errors TEXT NOT NULL,
+      blocked_requests TEXT NOT NULL,
+      failure TEXT
+    );
+    CREATE INDEX IF NOT EXISTS runs_page_idx ON runs (page_id, started_at);
+
+    CREATE TABLE IF NOT EXISTS ads (
+      library_id TEXT PRIMARY KEY,
+      page_id TEXT,
+      page_name TEXT,
+      first_seen_at TEXT NOT NULL,
+      last_seen_at TEXT NOT NULL,
+      first_run_id TEXT NOT NULL REFERENCES runs (id),
+      last_run_id TEXT NOT NULL REFERENCES runs (id),
+      times_seen INTEGER NOT NULL DEFAULT 1,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS ads_page_idx ON ads (page_id, last_seen_at);
+
+    CREATE TABLE IF NOT EXISTS run_ads (
+      run_id TEXT NOT NULL REFERENCES runs (id) ON DELETE CASCADE,
+      library_id TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (run_id, library_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS run_diffs (
+      run_id TEXT PRIMARY KEY REFERENCES runs (id) ON DELETE CASCADE,
+      base_run_id TEXT NOT NULL REFERENCES runs (id) ON DELETE CASCADE,
+      summary TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+
+    -- Runs resumed from a continuation token; they hold a later slice of the results, so never take part in diffs
+    CREATE TABLE IF NOT EXISTS resumed_runs (
+      run_id TEXT PRIMARY KEY REFERENCES runs (id) ON DELETE CASCADE
+    );
+
+    -- How much of the results a run covered; runs stored before this table existed are never a diff base
+    CREATE TABLE IF NOT EXISTS run_coverage (
+      run_id TEXT PRIMARY KEY REFERENCES runs (id) ON DELETE CASCADE,
+      ad_limit INTEGER NOT NULL,
+      locale TEXT NOT NULL,
+      exhausted INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS watchlists (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      filters TEXT NOT NULL,
+      strategy TEXT NOT NULL,
+      ad_limit INTEGER NOT NULL,
+      interval_minutes INTEGER NOT NULL,
+      jitter_minutes INTEGER NOT NULL,
+      enabled INTEGER NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS watchlist_pages (
+      watchlist_id TEXT NOT NULL REFERENCES watchlists (id) ON DELETE CASCADE,
+      page_id TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      next_run_at TEXT NOT NULL,
+      running_since TEXT,
+      last_run_at TEXT,
+      last_run_id TEXT,
+      last_status TEXT,
+      PRIMARY KEY (watchlist_id, page_id)
+    );
+    CREATE INDEX IF NOT EXISTS watchlist_pages_due_idx ON watchlist_pages (next_run_at);
+
+    CREATE TABLE IF NOT EXISTS watchlist_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      watchlist_id TEXT NOT NULL REFERENCES watchlists (id) ON DELETE CASCADE,
+      page_id TEXT NOT NULL,
+      run_id TEXT,
+      status TEXT NOT NULL,
+      error TEXT,
+      started_at TEXT NOT NULL,
+      finished_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS watchlist_runs_page_idx ON watchlist_runs (watchlist_id, page_id, started_at);
+
+    CREATE TABLE IF NOT EXISTS assets (
+      sha256 TEXT PRIMARY KEY,
+      mime_type TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      backend TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS asset_metadata (
+      sha256 TEXT PRIMARY KEY REFERENCES assets (sha256) ON DELETE CASCADE,
+      data TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS creative_clusters (
+      id TEXT PRIMARY KEY,
+      kind TEXT NOT NULL,
+      phash TEXT NOT NULL,
+      dhash TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS ad_clusters (
+      library_id TEXT PRIMARY KEY,
+      cluster_id TEXT NOT NULL REFERENCES creative_clusters (id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS ad_clusters_cluster_idx ON ad_clusters (cluster_id);
+
+    CREATE TABLE IF NOT EXISTS webhooks (
+      id TEXT PRIMARY KEY,
+      url TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      events TEXT NOT NULL,
+      enabled INTEGER NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id TEXT PRIMARY KEY,
+      webhook_id TEXT NOT NULL REFERENCES webhooks (id) ON DELETE CASCADE,
+      event TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TEXT,
+      last_error TEXT,
+      last_status_code INTEGER,
+      created_at TEXT NOT NULL,
+      delivered_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS webhook_deliveries_due_idx ON webhook_deliveries (status, next_attempt_at);
+  `);
+  console.log(`[store] Opened ${DB_PATH}`);
+  return db;
+}
+
+// --- Row mapping ---
+
+type Row = Record<string, unknown>;
+
+/** Runs recorded before errors had codes stored bare messages */
+function toErrors(raw: (ScrapeError | string)[], failure: StoredRun['failure']): ScrapeError[] {
+  return raw.map(error => typeof error === 'string'
+    ? { code: 'INTERNAL', severity: 'fatal', phase: failure?.phase ?? 'launching', retryable: true, message: error }
+    : error);
+}
+
+function toRun(row: Row): StoredRun {
+  const failure: StoredRun['failure'] = row.failure ? JSON.parse(row.failure as string) : null;
+  return {
+    id: row.id as string,
+    pageId: (row.page_id as string | null) ?? null,
+    query: (row.query as string | null) ?? null,
+    strategy: row.strategy as string,
+    status: row.status as StoredRun['status'],
+    startedAt: row.started_at as string,
+    finishedAt: row.finished_at as string,
+    durationMs: Number(row.duration_ms),
+    totalFound: Number(row.total_found),
+    advertiserName: (row.advertiser_name as string | null) ?? null,
+    filters: JSON.parse(row.filters as string),
+    errors: toErrors(JSON.parse(row.errors as string), failure),
+    blockedRequests: JSON.parse(row.blocked_requests as string),
+    failure,
+  };
+}
+
+function toStoredAd(row: Row): StoredAd {
+  return {
+    libraryId: row.library_id as string,
+    pageId: (row.page_id as string | null) ?? null,
+    pageName: (row.page_name as string | null) ?? null,
+    firstSeenAt: row.first_seen_at as string,
+    lastSeenAt: row.last_seen_at as string,
+    firstRunId: row.first_run_id as string,
+    lastRunId: row.last_run_id as string,
+    timesSeen: Number(row.times_seen),
+    ad: JSON.parse(row.data as string),
+  };
+}
+
+// --- Writes ---
+
+/**
+ * Stores a finished scrape and upserts every ad it produced, all in one
+ * transaction. `resumed` marks a run that carried on from a continuation
+ * token and so only holds a later slice of the results.
+ */
+export function recordRun(strategy: string, target: ScrapeTarget, result: ScrapeResult, resumed = false): StoredRun {
+  const database = getDb();
+  const finishedAt = new Date().toISOString();
+  const run: StoredRun = {
+    id: randomUUID(),
+    pageId: target.kind === 'page' ? target.facebookPageId : null,
+    query: target.kind === 'keyword' ? target.query : null,
+    strategy,
+    status: result.status,
+    startedAt: new Date(Date.now() - result.durationMs).toISOString(),
+    finishedAt,
+    durationMs: result.durationMs,
+    totalFound: result.totalFound,
+    advertiserName: result.advertiserName,
+    filters: result.filters,
+    errors: result.errors,
+    blockedRequests: result.blockedRequests,
+    failure: result.failure,
+  };
+
+  const insertRun = database.prepare(`
+    INSERT INTO runs (id, page_id, query, strategy, status, started_at, finished_at, duration_ms, total_found,
+                      advertiser_name, filters, errors, blocked_requests, failure)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const upsertAd = database.prepare(`
+    INSERT INTO ads (library_id, page_id, page_name, first_seen_at, last_seen_at, first_run_id, last_run_id, data)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (library_id) DO UPDATE SET
+      page_id = COALESCE(excluded.page_id, ads.page_id),
+      page_name = COALESCE(excluded.page_name, ads.page_name),
+      last_seen_at = excluded.last_seen_at,
+      last_run_id = excluded.last_run_id,
+      times_seen = ads.times_seen + 1,
+      data = excluded.data
+  `);
+  const insertRunAd = database.prepare(`
+    INSERT OR IGNORE INTO run_ads (run_id, library_id, position, data) VALUES (?, ?, ?, ?)
+  `);
+  // Without a continuation the results ran out, unless the ad limit was hit with no ad query to page on from
+  const exhausted = result.continuation === null && result.ads.length < result.adLimit;
+
+  database.exec('BEGIN');
+  try {
+    assignCreativeClusters(database, result.ads, finishedAt);
+    insertRun.run(
+      run.id, run.pageId, run.query, run.strategy, run.status, run.startedAt, run.finishedAt, run.durationMs,
+      run.totalFound, run.advertiserName, JSON.stringify(run.filters), JSON.stringify(run.errors),
+      JSON.stringify(run.blockedRequests), run.failure ? JSON.stringify(run.failure) : null,
+    );
+    result.ads.forEach((ad, position) => {
+      const data = JSON.stringify(ad);
+      upsertAd.run(ad.libraryId, ad.pageId, ad.pageName, finishedAt, finishedAt, run.id, run.id, data);
+      insertRunAd.run(run.id, ad.libraryId, position, data);
+    });
+    database.prepare('INSERT INTO run_coverage (run_id, ad_limit, locale, exhausted) VALUES (?, ?, ?, ?)')
+      .run(run.id, result.adLimit, result.locale, exhausted ? 1 : 0);
+    if (resumed) database.prepare('INSERT INTO resumed_runs (run_id) VALUES (?)').run(run.id);
+    else recordDiff(database, run, result.ads);
+    database.exec('COMMIT');
+  } catch (err) {
+    database.exec('ROLLBACK');
+    throw err;
+  }
+
+  console.log(`[store] Recorded run ${run.id} (${run.status}, ${result.ads.length} ads)`);
+  return run;
+}
+
+/**
+ * Diffs a run against the page's previous run with the same filters and UI
+ * locale, whose text fields would otherwise all differ. Only successful runs
+ * take part: a partial or resumed run would report every ad it never reached
+ * as having disappeared.
+ */
+function recordDiff(database: DatabaseSync, run: StoredRun, ads: ScrapedAd[]): void {
+  if (!run.pageId || run.status !== 'success') return;
+  const base = database.prepare(`
+    SELECT id FROM runs
+    JOIN run_coverage ON run_coverage.run_id = runs.id
+    WHERE page_id = ? AND filters = ? AND status = 'success' AND started_at < ? AND id != ?
+      AND locale = (SELECT locale FROM run_coverage WHERE run_id = ?)
+      AND id NOT IN (SELECT run_id FROM resumed_runs)
+    ORDER BY started_at DESC
+    LIMIT 1
+  `).get(run.pageId, JSON.stringify(run.filters), run.startedAt, run.id, run.id) as Row | undefined;
+  if (!base) return;
+
+  const diff = diffAds(base.id as string, run.id, getRunAds(base.id as string), ads, coverBoth(database, base.id as string, run.id));
+  database.prepare('INSERT INTO run_diffs (run_id, base_run_id, summary, data) VALUES (?, ?, ?, ?)')
+    .run(run.id, diff.baseRunId, JSON.stringify(diff.summary), JSON.stringify(diff));
+}
+
+/**
+ * Puts each hashed ad into the nearest existing creative cluster, or starts a
+ * new one, and sets `creativeCluster` on the ads before they are written.
+ */
+function assignCreativeClusters(database: DatabaseSync, ads: ScrapedAd[], now: string): void {
+  const candidates: ClusterCandidate[] = (database.prepare('SELECT * FROM creative_clusters').all() as Row[]).map(row => ({
+    id: row.id as string,
+    kind: row.kind as ClusterCandidate['kind'],
+    hash: { pHash: row.phash as string, dHash: row.dhash as string },
+  }));
+  const insertCluster = database.prepare('INSERT INTO creative_clusters (id, kind, phash, dhash, created_at) VALUES (?, ?, ?, ?, ?)');
+  const assign = database.prepare(`
+    INSERT INTO ad_clusters (library_id, cluster_id) VALUES (?, ?)
+    ON CONFLICT (library_id) DO UPDATE SET cluster_id = excluded.cluster_id
+  `);
+
+  const clusterOf = new Map<ScrapedAd, string>();
+  for (const ad of ads) {
+    const key = representativeHash(ad);
+    if (!key) {
+      ad.creativeCluster = null;
+      continue;
+    }
+    let cluster = findCluster(key, candidates);
+    if (!cluster) {
+      cluster = { id: randomUUID(), ...key };
+      insertCluster.run(cluster.id, key.kind, key.hash.pHash, key.hash.dHash, now);
+      candidates.push(cluster);
+    }
+    assign.run(ad.libraryId, cluster.id);
+    clusterOf.set(ad, cluster.id);
+  }
+
+  const inRun = new Map<string, number>();
+  for (const id of clusterOf.values()) inRun.set(id, (inRun.get(id) ?? 0) + 1);
+  const countAds = database.prepare('SELECT COUNT(*) AS size FROM ad_clusters WHERE cluster_id = ?');
+  for (const [ad, id] of clusterOf) {
+    const size = Number((countAds.get(id) as Row).size);
+    ad.creativeCluster = { id, size, sizeInRun: inRun.get(id)! };
+  }
+}
+
+// --- Reads ---
+
+export function listRuns(filter: { pageId?: string; limit?: number; offset?: number } = {}): StoredRun[] {
+  const rows = getDb().prepare(`
+    SELECT * FROM runs
+    WHERE (? IS NULL OR page_id = ?)
+    ORDER BY started_at DESC
+    LIMIT ? OFFSET ?
+  `).all(filter.pageId ?? null, filter.pageId ?? null, filter.limit ?? 50, filter.offset ?? 0);
+  return rows.map(row => toRun(row as Row));
+}
+
+export function getRun(id: string): StoredRun | null {
+  const row = getDb().prepare('SELECT * FROM runs WHERE id = ?').get(id);
+  return row ? toRun(row as Row) : null;
+}
+
+/** Ads exactly as a given run saw them, in result order. */
+export function getRunAds(runId: string): ScrapedAd[] {
+  const rows = getDb().prepare('SELECT data FROM run_ads WHERE run_id = ? ORDER BY position').all(runId);
+  return rows.map(row => JSON.parse((row as Row).data as string));
+}
+
+/**
+ * Whether both runs got to the end of the results, so an ad missing from the
+ * later one is really gone rather than cut off by its ad limit.
+ */
+function coverBoth(database: DatabaseSync, baseRunId: string, runId: string): boolean {
+  const row = database.prepare(`
+    SELECT COUNT(*) AS exhausted FROM run_coverage WHERE run_id IN (?, ?) AND exhausted = 1
+  `).get(baseRunId, runId) as Row;
+  return Number(row.exhausted) === 2;
+}
+
+/** Diffs two stored runs on demand, e.g. `GET /runs/:id/diff?against=<baseRunId>`. */
+export function diffRuns(baseRunId: string, runId: string): RunDiff {
+  return diffAds(baseRunId, runId, getRunAds(baseRunId), getRunAds(runId), coverBoth(getDb(), baseRunId, runId));
+}
+
+/** The diff recorded when the run was stored, against the page's previous comparable run. */
+export function getRunDiff(runId: string): RunDiff | null {
+  const row = getDb().prepare('SELECT data FROM run_diffs WHERE run_id = ?').get(runId) as Row | undefined;
+  return row ? JSON.parse(row.data as string) : null;
+}
+
+export function listAds(filter: { pageId?: string; seenSince?: string; limit?: number; offset?: number } = {}): StoredAd[] {
+  const rows = getDb().prepare(`
+    SELECT * FROM ads
+    WHERE (? IS NULL OR page_id = ?)
+      AND (? IS NULL OR last_seen_at >= ?)
+    ORDER BY first_seen_at DESC
+    LIMIT ? OFFSET ?
+  `).all(
+    filter.pageId ?? null, filter.pageId ?? null,
+    filter.seenSince ?? null, filter.seenSince ?? null,
+    filter.limit ?? 100, filter.offset ?? 0,
+  );
+  return rows.map(row => toStoredAd(row as Row));
+}
+
+export function getAd(libraryId: string): { ad: StoredAd; runs: StoredRun[] } | null {
+  const database = getDb();
+  const row = database.prepare('SELECT * FROM ads WHERE library_id = ?').get(libraryId);
+  if (!row) return null;
+  const runs = database.prepare(`
+    SELECT runs.* FROM runs
+    JOIN run_ads ON run_ads.run_id = runs.id
+    WHERE run_ads.library_id = ?
+    ORDER BY runs.started_at DESC
+  `).all(libraryId);
+  return { ad: toStoredAd(row as Row), runs: runs.map(r => toRun(r as Row)) };
+}
+
+// --- Watchlists ---
+
+function toWatchlist(row: Row, pageIds: string[]): Watchlist {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    pageIds,
+    filters: JSON.parse(row.filters as string),
+    strategy: row.strategy as Watchlist['strategy'],
+    adLimit: Number(row.ad_limit),
+    intervalMinutes: Number(row.interval_minutes),
+    jitterMinutes: Number(row.jitter_minutes),
+    enabled: Boolean(row.enabled),
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function toPageState(row: Row): WatchlistPageState {
+  return {
+    pageId: row.page_id as string,
+    nextRunAt: row.next_run_at as string,
+    runningSince: (row.running_since as string | null) ?? null,
+    lastRunAt: (row.last_run_at as string | null) ?? null,
+    lastRunId: (row.last_run_id as string | null) ?? null,
+    lastStatus: (row.last_status as string | null) ?? null,
+  };
+}
+
+function watchlistPageIds(database: DatabaseSync, id: string): string[] {
+  return database.prepare('SELECT page_id FROM watchlist_pages WHERE watchlist_id = ? ORDER BY position')
+    .all(id)
+    .map(row => (row as Row).page_id as string);
+}
+
+export function listWatchlists(): Watchlist[] {
+  const database = getDb();
+  return database.prepare('SELECT * FROM watchlists ORDER BY created_at')
+    .all()
+    .map(row => toWatchlist(row as Row, watchlistPageIds(database, (row as Row).id as string)));
+}
+
+export function getWatchlist(id: string): Watchlist | null {
+  const database = getDb();
+  const row = database.prepare('SELECT * FROM watchlists WHERE id = ?').get(id);
+  return row ? toWatchlist(row as Row, watchlistPageIds(database, id)) : null;
+}
+
+export function getWatchlistPages(id: string): WatchlistPageState[] {
+  return getDb().prepare('SELECT * FROM watchlist_pages WHERE watchlist_id = ? ORDER BY position')
+    .all(id)
+    .map(row => toPageState(row as Row));
+}
+
+/**
+ * Writes a watchlist and reconciles its pages: new pages are scheduled at
+ * `firstRunAt(pageId)`, removed pages are dropped, existing ones keep their state.
+ */
+export function saveWatchlist(id: string, input: WatchlistInput, firstRunAt: (pageId: string) => string): Watchlist {
+  const database = getDb();
+  const now = new Date().toISOString();
+
+  database.exec('BEGIN');
+  try {
+    database.prepare(`
+      INSERT INTO watchlists (id, name, filters, strategy, ad_limit, interval_minutes, jitter_minutes, enabled, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        name = excluded.name,
+        filters = excluded.filters,
+        strategy = excluded.strategy,
+        ad_limit = excluded.ad_limit,
+        interval_minutes = excluded.interval_minutes,
+        jitter_minutes = excluded.jitter_minutes,
+        enabled = excluded.enabled,
+        updated_at = excluded.updated_at
+    `).run(
+      id, input.name, JSON.stringify(input.filters), input.strategy, input.adLimit,
+      input.intervalMinutes, input.jitterMinutes, input.enabled ? 1 : 0, now, now,
+    );
+
+    const existing = new Set(watchlistPageIds(database, id));
+    const wanted = new Set(input.pageIds);
+    const remove = database.prepare('DELETE FROM watchlist_pages WHERE watchlist_id = ? AND page_id = ?');
+    for (const pageId of existing) {
+      if (!wanted.has(pageId)) remove.run(id, pageId);
+    }
+
+    const insert = database.prepare(`
+      INSERT INTO watchlist_pages (watchlist_id, page_id, position, next_run_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT (watchlist_id, page_id) DO UPDATE SET position = excluded.position
+    `);
+    input.pageIds.forEach((pageId, position) => insert.run(id, pageId, position, firstRunAt(pageId)));
+
+    database.exec('COMMIT');
+  } catch (err) {
+    database.exec('ROLLBACK');
+    throw err;
+  }
+
+  return getWatchlist(id)!;
+}
+
+export function deleteWatchlist(id: string): boolean {
+  const result = getDb().prepare('DELETE FROM watchlists WHERE id = ?').run(id);
+  return Number(result.changes) > 0;
+}
+
+/** Makes every page of the watchlist due immediately. */
+export function triggerWatchlist(id: string): void {
+  getDb().prepare('UPDATE watchlist_pages SET next_run_at = ? WHERE watchlist_id = ?').run(new Date().toISOString(), id);
+}
+
+/** Pages of enabled watchlists that are due and not already running, oldest first. */
+export function dueWatchlistPages(limit: number): { watchlist: Watchlist; pageId: string }[] {
+  const database = getDb();
+  const rows = database.prepare(`
+    SELECT watchlist_pages.watchlist_id, watchlist_pages.page_id FROM watchlist_pages
+    JOIN watchlists ON watchlists.id = watchlist_pages.watchlist_id
+    WHERE watchlists.enabled = 1
+      AND watchlist_pages.running_since IS NULL
+      AND watchlist_pages.next_run_at <= ?
+    ORDER BY watchlist_pages.next_run_at
+    LIMIT ?
+  `).all(new Date().toISOString(), limit);
+
+  const watchlists = new Map<string, Watchlist | null>();
+  const due: { watchlist: Watchlist; pageId: string }[] = [];
+  for (const row of rows as Row[]) {
+    const watchlistId = row.watchlist_id as string;
+    if (!watchlists.has(watchlistId)) watchlists.set(watchlistId, getWatchlist(watchlistId));
+    const watchlist = watchlists.get(watchlistId);
+    if (watchlist) due.push({ watchlist, pageId: row.page_id as string });
+  }
+  return due;
+}
+
+export function markWatchlistPageRunning(watchlistId: string, pageId: string): void {
+  getDb().prepare('UPDATE watchlist_pages SET running_since = ? WHERE watchlist_id = ? AND page_id = ?')
+    .run(new Date().toISOString(), watchlistId, pageId);
+}
+
+/** Runs interrupted by a restart never finished; make them eligible again. */
+export function resetRunningWatchlistPages(): number {
+  const result = getDb().prepare('UPDATE watchlist_pages SET running_since = NULL WHERE running_since IS NOT NULL').run();
+  return Number(result.changes);
+}
+
+export function completeWatchlistRun(run: Omit<WatchlistRun, 'changes'>, nextRunAt: string): void {
+  const database = getDb();
+  database.exec('BEGIN');
+  try {
+    database.prepare(`
+      INSERT INTO watchlist_runs (watchlist_id, page_id, run_id, status, error, started_at, finished_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(run.watchlistId, run.pageId, run.runId, run.status, run.error, run.startedAt, run.finishedAt);
+    database.prepare(`
+      UPDATE watchlist_pages
+      SET running_since = NULL, next_run_at = ?, last_run_at = ?, last_run_id = ?, last_status = ?
+      WHERE watchlist_id = ? AND page_id = ?
+    `).run(nextRunAt, run.finishedAt, run.runId, run.status, run.watchlistId, run.pageId);
+    database.exec('COMMIT');
+  } catch (err) {
+    database.exec('ROLLBACK');
+    throw err;
+  }
+}
+
+export function listWatchlistRuns(watchlistId: string, pageId?: string, limit = 100): WatchlistRun[] {
+  return getDb().prepare(`
+    SELECT watchlist_runs.*, run_diffs.summary FROM watchlist_runs
+    LEFT JOIN run_diffs ON run_diffs.run_id = watchlist_runs.run_id
+    WHERE watchlist_id = ? AND (? IS NULL OR page_id = ?)
+    ORDER BY started_at DESC
+    LIMIT ?
+  `).all(watchlistId, pageId ?? null, pageId ?? null, limit).map(row => {
+    const r = row as Row;
+    return {
+      watchlistId: r.watchlist_id as string,
+      pageId: r.page_id as string,
+      runId: (r.run_id as string | null) ?? null,
+      status: r.status as string,
+      error: (r.error as string | null) ?? null,
+      startedAt: r.started_at as string,
+      finishedAt: r.finished_at as string,
+      changes: r.summary ? JSON.parse(r.summary as string) : null,
+    };
+  });
+}
+
+// --- Creative clusters ---
+
+function toCluster(row: Row): StoredCluster {
+  return {
+    id: row.id as string,
+    kind: row.kind as StoredCluster['kind'],
+    pHash: row.phash as string,
+    dHash: row.dhash as string,
+    createdAt: row.created_at as string,
+    size: Number(row.size),
+  };
+}
+
+/** Clusters by size, largest first; with `pageId`, only clusters holding that page's ads, sized by them. */
+export function listClusters(filter: { pageId?: string; limit?: number; offset?: number } = {}): StoredCluster[] {
+  return getDb().prepare(`
+    SELECT creative_clusters.*, COUNT(*) AS size FROM creative_clusters
+    JOIN ad_clusters ON ad_clusters.cluster_id = creative_clusters.id
+    LEFT JOIN ads ON ads.library_id = ad_clusters.library_id
+    WHERE (? IS NULL OR ads.page_id = ?)
+    GROUP BY creative_clusters.id
+    ORDER BY size DESC, creative_clusters.created_at
+    LIMIT ? OFFSET ?
+  `).all(filter.pageId ?? null, filter.pageId ?? null, filter.limit ?? 100, filter.offset ?? 0).map(row => toCluster(row as Row));
+}
+
+export function getCluster(id: string): { cluster: StoredCluster; ads: StoredAd[] } | null {
+  const database = getDb();
+  const row = database.prepare(`
+    SELECT creative_clusters.*, (SELECT COUNT(*) FROM ad_clusters WHERE cluster_id = creative_clusters.id) AS size
+    FROM creative_clusters WHERE id = ?
+  `).get(id);
+  if (!row) return null;
+  const ads = database.prepare(`
+    SELECT ads.* FROM ads
+    JOIN ad_clusters ON ad_clusters.library_id = ads.library_id
+    WHERE ad_clusters.cluster_id = ?
+    ORDER BY ads.first_seen_at
+  `).all(id);
+  return { cluster: toCluster(row as Row), ads: ads.map(r => toStoredAd(r as Row)) };
+}
+
+// --- Archived assets ---
+
+export function recordAsset(asset: Omit<StoredAsset, 'createdAt'>): void {
+  getDb().prepare(`
+    INSERT OR IGNORE INTO assets (sha256, mime_type, size, backend, created_at) VALUES (?, ?, ?, ?, ?)
+  `).run(asset.sha256, asset.mimeType, asset.size, asset.backend, new Date().toISOString());
+}
+
+export function getAsset(sha256: string): StoredAsset | null {
+  const row = getDb().prepare('SELECT * FROM assets WHERE sha256 = ?').get(sha256) as Row | undefined;
+  if (!row) return null;
+  return {
+    sha256: row.sha256 as string,
+    mimeType: row.mime_type as string,
+    size: Number(row.size),
+    backend: row.backend as StoredAsset['backend'],
+    createdAt: row.created_at as string,
+  };
+}
+
+/** Metadata is a pure function of the content, so each hash is probed once. */
+export function recordAssetMetadata(sha256: string, metadata: MediaMetadata): void {
+  getDb().prepare('INSERT OR REPLACE INTO asset_metadata (sha256, data) VALUES (?, ?)').run(sha256, JSON.stringify(metadata));
+}
+
+export function getAssetMetadata(sha256: string): MediaMetadata | null {
+  const row = getDb().prepare('SELECT data FROM asset_metadata WHERE sha256 = ?').get(sha256) as Row | undefined;
+  return row ? JSON.parse(row.data as string) : null;
+}
+
+// --- Webhooks ---
+
+function toWebhook(row: Row): Webhook {
+  return {
+    id: row.id as string,
+    url: row.url as string,
+    events: JSON.parse(row.events as string),
+    enabled: Boolean(row.enabled),
+    createdAt: row.created_at as string,
+  };
+}
+
+function toDelivery(row: Row): WebhookDelivery {
+  return {
+    id: row.id as string,
+    webhookId: row.webhook_id as string,
+    event: row.event as string,
+    payload: JSON.parse(row.payload as string),
+    status: row.status as DeliveryStatus,
+    attempts: Number(row.attempts),
+    nextAttemptAt: (row.next_attempt_at as string | null) ?? null,
+    lastError: (row.last_error as string | null) ?? null,
+    lastStatusCode: row.last_status_code === null || row.last_status_code === undefined ? null : Number(row.last_status_code),
+    createdAt: row.created_at as string,
+    deliveredAt: (row.delivered_at as string | null) ?? null,
+  };
+}
+
+export function createWebhook(url: string, events: string[], secret: string): Webhook {
+  const webhook: Webhook = { id: randomUUID(), url, events, enabled: true, createdAt: new Date().toISOString() };
+  getDb().prepare('INSERT INTO webhooks (id, url, secret, events, enabled, created_at) VALUES (?, ?, ?, ?, 1, ?)')
+    .run(webhook.id, url, secret, JSON.stringify(events), webhook.createdAt);
+  return { ...webhook, secret };
+}
+
+export function listWebhooks(): Webhook[] {
+  return getDb().prepare('SELECT * FROM webhooks ORDER BY created_at').all().map(row => toWebhook(row as Row));
+}
+
+export function getWebhook(id: string): Webhook | null {
+  const row = getDb().prepare('SELECT * FROM webhooks WHERE id = ?').get(id);
+  return row ? toWebhook(row as Row) : null;
+}
+
+export function getWebhookSecret(id: string): string | null {
+  const row = getDb().prepare('SELECT secret FROM webhooks WHERE id = ?').get(id) as Row | undefined;
+  return row ? (row.secret as string) : null;
+}
+
+export function setWebhookEnabled(id: string, enabled: boolean): Webhook | null {
+  getDb().prepare('UPDATE webhooks SET enabled = ? WHERE id = ?').run(enabled ? 1 : 0, id);
+  return getWebhook(id);
+}
+
+export function deleteWebhook(id: string): boolean {
+  const result = getDb().prepare('DELETE FROM webhooks WHERE id = ?').run(id);
+  return Number(result.changes) > 0;
+}
+
+/** Queues `event` for every enabled webhook subscribed to it. Returns the new deliveries. */
+export function enqueueDeliveries(event: string, payload: unknown): WebhookDelivery[] {
+  const database = getDb();
+  const now = new Date().toISOString();
+  const insert = database.prepare(`
+    INSERT INTO webhook_deliveries (id, webhook_id, event, payload, status, next_attempt_at, created_at)
+    VALUES (?, ?, ?, ?, 'pending', ?, ?)
+  `);
+  const data = JSON.stringify(payload);
+  const ids: string[] = [];
+
+  for (const webhook of listWebhooks()) {
+    if (!webhook.enabled || !webhook.events.includes(event)) continue;
+    const id = randomUUID();
+    insert.run(id, webhook.id, event, data, now, now);
+    ids.push(id);
+  }
+  return ids.map(id => getDelivery(id)!);
+}
+
+/** Queues a delivery for one webhook regardless of its subscriptions (used for pings). */
+export function enqueueDelivery(webhookId: string, event: string, payload: unknown): WebhookDelivery {
+  const id = randomUUID();
+  const now = new Date().toISOString();
+  getDb().prepare(`
+    INSERT INTO webhook_deliveries (id, webhook_id, event, payload, status, next_attempt_at, created_at)
+    VALUES (?, ?, ?, ?, 'pending', ?, ?)
+  `).run(id, webhookId, event, JSON.stringify(payload), now, now);
+  return getDelivery(id)!;
+}
+
+export function getDelivery(id: string): WebhookDelivery | null {
+  const row = getDb().prepare('SELECT * FROM webhook_deliveries WHERE id = ?').get(id);
+  return row ? toDelivery(row as Row) : null;
+}
+
+export function listDeliveries(
+  filter: { webhookId?: string; status?: DeliveryStatus; limit?: number; offset?: number } = {},
+): WebhookDelivery[] {
+  return getDb().prepare(`
+    SELECT * FROM webhook_deliveries
+    WHERE (? IS NULL OR webhook_id = ?)
+      AND (? IS NULL OR status = ?)
+    ORDER BY created_at DESC
+    LIMIT ? OFFSET ?
+  `).all(
+    filter.webhookId ?? null, filter.webhookId ?? null,
+    filter.status ?? null, filter.status ?? null,
+    filter.limit ?? 100, filter.offset ?? 0,
+  ).map(row => toDelivery(row as Row));
+}
+
+/** Pending deliveries whose next attempt is due, oldest first. */
+export function dueDeliveries(limit: number): WebhookDelivery[] {
+  return getDb().prepare(`
+    SELECT webhook_deliveries.* FROM webhook_deliveries
+    JOIN webhooks ON webhooks.id = webhook_deliveries.webhook_id
+    WHERE webhooks.enabled = 1
+      AND webhook_deliveries.status = 'pending'
+      AND webhook_deliveries.next_attempt_at <= ?
+    ORDER BY webhook_deliveries.next_attempt_at
+    LIMIT ?
+  `).all(new Date().toISOString(), limit).map(row => toDelivery(row as Row));
+}
+
+/**
+ * Records the outcome of an attempt. `nextAttemptAt` schedules a retry after a
+ * failure; null on a failure moves the delivery to the dead-letter list.
+ */
+export function recordDeliveryAttempt(
+  id: string,
+  outcome: { ok: boolean; statusCode: number | null; error: string | null; nextAttemptAt: string | null },
+): void {
+  const now = new Date().toISOString();
+  const status: DeliveryStatus = outcome.ok ? 'delivered' : outcome.nextAttemptAt ? 'pending' : 'dead';
+  getDb().prepare(`
+    UPDATE webhook_deliveries
+    SET status = ?, attempts = attempts + 1, next_attempt_at = ?, last_error = ?, last_status_code = ?, delivered_at = ?
+    WHERE id = ?
+  `).run(status, outcome.ok ? null : outcome.nextAttemptAt, outcome.error, outcome.statusCode, outcome.ok ? now : null, id);
+}
+
+/** Puts a delivery back in the queue with a fresh set of retries. */
+export function requeueDelivery(id: string): WebhookDelivery | null {
+  getDb().prepare(`
+    UPDATE webhook_deliveries SET status = 'pending', attempts = 0, next_attempt_at = ? WHERE id = ?
+  `).run(new Date().toISOString(), id);
+  return getDelivery(id);
+}
@@ -0,0 +1,58 @@
+import type { Request, Response } from 'express';
+import type { JobRunner } from './jobs';
+
+// --- Streaming responses ---
+// Emits each ad as soon as a scraper sees it, interleaved with progress and
+// diagnostics, and finishes with a summary holding the rest of ScrapeResult.
+
+export type StreamFormat = 'ndjson' | 'sse';
+
+/** Picks the stream format from `?stream=` or the Accept header; null means a plain JSON response. */
+export function streamFormat(req: Request): StreamFormat | null {
+  const param = req.query.stream;
+  if (param === 'ndjson' || param === 'sse') return param;
+  const accept = req.headers.accept || '';
+  if (accept.includes('text/event-stream')) return 'sse';
+  if (accept.includes('application/x-ndjson')) return 'ndjson';
+  return null;
+}
+
+export async function streamScrape(res: Response, format: StreamFormat, run: JobRunner): Promise<void> {
+  res.status(200);
+  res.setHeader('Content-Type', format === 'sse' ? 'text/event-stream' : 'application/x-ndjson');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  let seq = 0;
+  const send = (event: string, data: unknown) => {
+    if (res.writableEnded) return;
+    seq++;
+    if (format === 'sse') {
+      res.write(`id: ${seq}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    } else {
+      res.write(`${JSON.stringify({ seq, event, data })}\n`);
+    }
+  };
+
+  // A client that hangs up doesn't need the rest of the scrape
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    const result = await run({
+      signal: controller.signal,
+      onProgress: progress => send('progress', progress),
+      onAds: ads => ads.forEach(ad => send('ad', ad)),
+      onDiagnostic: diagnostic => send('diagnostic', diagnostic),
+    });
+    const { ads, ...summary } = result;
+    send('summary', { ...summary, libraryIds: ads.map(ad => ad.libraryId) });
+  } catch (err) {
+    send('error', { error: String(err) });
+  } finally {
+    res.end();
+  }
+}
@@ -0,0 +1,248 @@
+import type { ScrapeLocale } from './locales';
+
+// --- Types ---
+
+export interface AdAsset {
+  type: 'image' | 'video';
+  url: string;
+  posterUrl: string | null;
+  title: string | null;
+  linkUrl: string | null;
+  /** Local copy of `url`, set when the scrape ran with `archiveAssets`; null if the download failed */
+  archive?: ArchivedFile | null;
+  /** Local copy of `posterUrl` */
+  posterArchive?: ArchivedFile | null;
+  /** Read from the archived file; null when it couldn't be downloaded or probed */
+  metadata?: MediaMetadata | null;
+}
+
+export type AspectRatioClass = '1:1' | '4:5' | '9:16' | '16:9' | 'other';
+
+export interface MediaMetadata {
+  kind: 'image' | 'video';
+  /** e.g. jpeg, png, webp, or ffprobe's container name such as "mov,mp4,m4a,3gp,3g2,mj2" */
+  format: string | null;
+  /** Display size in pixels, after applying any rotation flag */
+  width: number | null;
+  height: number | null;
+  aspectRatio: AspectRatioClass | null;
+  durationSeconds: number | null;
+  codec: string | null;
+  /** Archived JPEG thumbnails taken across the video; empty for images */
+  keyframes: ArchivedFile[];
+  /** One for an image, one per keyframe for a video; empty when ffmpeg isn't available */
+  perceptualHashes: PerceptualHash[];
+}
+
+/** 64-bit hashes as 16 hex characters; near-identical images differ in only a few bits. */
+export interface PerceptualHash {
+  pHash: string;
+  dHash: string;
+}
+
+/** A downloaded creative. The hash is its content address, so the URL never expires. */
+export interface ArchivedFile {
+  url: string;
+  sha256: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface ScrapedAd {
+  libraryId: string;
+  /** Type of the first asset — carousels may mix images and videos. */
+  assetType: 'image' | 'video';
+  /** Every creative in display order: one for simple ads, several for carousel / DCO. */
+  assets: AdAsset[];
+  /** ISO 8601 (YYYY-MM-DD) */
+  startDate: string | null;
+  endDate: string | null;
+  /** The dates as the Ad Library displays them, e.g. "12 Jan 2025" */
+  startDateText: string | null;
+  endDateText: string | null;
+  /** Days from startDate to endDate inclusive, or to the scrape date while still running */
+  activeDays: number | null;
+  lowImpressionCount: boolean;
+  /** Impressions as displayed, e.g. "<1K" or "10K-50K" */
+  impressions: string | null;
+  impressionBounds: ImpressionBounds | null;
+  bodyText: string | null;
+  headline: string | null;
+  linkCaption: string | null;
+  ctaText: string | null;
+  landingUrl: string | null;
+  /** Advertiser page ID — needed to tell advertisers apart in keyword search results */
+  pageId: string | null;
+  pageName: string | null;
+  pageProfilePictureUrl: string | null;
+  /** Near-duplicate group, assigned when the run is stored; null when the creative couldn't be hashed */
+  creativeCluster?: CreativeCluster | null;
+}
+
+export interface ImpressionBounds {
+  lower: number;
+  /** null for open-ended ranges such as "1M+" */
+  upper: number | null;
+}
+
+export interface CreativeCluster {
+  id: string;
+  /** Library IDs in the cluster across all stored runs */
+  size: number;
+  /** Ads in the cluster within this run */
+  sizeInRun: number;
+}
+
+export type ScrapeTarget =
+  | { kind: 'page'; facebookPageId: string }
+  | { kind: 'keyword'; query: string; exactPhrase: boolean };
+
+export interface ScrapeFilters {
+  activeStatus: 'active' | 'inactive' | 'all';
+  /** ISO 3166 alpha-2 codes, or ['ALL'] */
+  countries: string[];
+  mediaType: 'all' | 'image' | 'video' | 'meme' | 'image_and_meme' | 'none';
+  adType: 'all' | 'political_and_issue_ads' | 'housing_ads' | 'employment_ads' | 'financial_products_and_services_ads';
+  /** YYYY-MM-DD, inclusive */
+  deliveryDateMin: string | null;
+  deliveryDateMax: string | null;
+  /** Empty means every platform */
+  platforms: ('facebook' | 'instagram' | 'messenger' | 'audience_network')[];
+  sortMode: 'total_impressions' | 'relevancy_monthly_grouped';
+  sortDirection: 'desc' | 'asc';
+}
+
+export interface ScrapeFailure {
+  phase: ScrapePhase;
+  scrollIteration: number;
+  adsCollected: number;
+  message: string;
+}
+
+export interface ScrapeResult {
+  success: boolean;
+  /** `partial` means the run failed but `ads` still holds what was gathered before it did */
+  status: 'success' | 'partial' | 'failed';
+  ads: ScrapedAd[];
+  totalFound: number;
+  /** The fatal error that ended the run, if any, first; then warnings about what went wrong along the way */
+  errors: ScrapeError[];
+  durationMs: number;
+  advertiserName: string | null;
+  diagnostics: Record<string, unknown>[];
+  blockedRequests: string[];
+  consoleErrors: string[];
+  filters: ScrapeFilters;
+  adLimit: number;
+  /** BCP 47 tag of the UI locale the run scraped in */
+  locale: string;
+  failure: ScrapeFailure | null;
+  /** Opaque token to pass back as `continuation` when the run stopped short of the end of the results (see continuation.ts) */
+  continuation: string | null;
+  /** ID of the stored run, once the result has been recorded */
+  runId?: string;
+  /** Change counts against the previous comparable run, when there is one */
+  changes?: RunDiffSummary | null;
+}
+
+/** Stable error codes; see errors.ts for which are retryable and their HTTP status */
+export type ScrapeErrorCode =
+  | 'TIMEOUT'
+  | 'NAVIGATION_FAILED'
+  | 'LOGIN_WALL'
+  | 'RATE_LIMITED'
+  | 'CAPTCHA_PRESENT'
+  /** Library IDs were on the page but no class-chain card selector matched (see selectors.ts) */
+  | 'SELECTOR_DRIFT'
+  | 'PAGINATION_FAILED'
+  | 'INVALID_PAGE_ID'
+  | 'CANCELLED'
+  | 'INTERNAL';
+
+export interface ScrapeError {
+  code: ScrapeErrorCode;
+  /** `fatal` ended the run; a `warning` left its ads usable */
+  severity: 'fatal' | 'warning';
+  phase: ScrapePhase;
+  /** Whether the same scrape may succeed later or with another strategy */
+  retryable: boolean;
+  message: string;
+}
+
+/** A named scrape strategy, or `auto` to fall back from one to the next (see engine.ts) */
+export type ScrapeStrategyName = 'v1' | 'v2' | 'v3' | 'auto';
+
+export type ScrapePhase = 'launching' | 'navigating' | 'hydrating' | 'scrolling' | 'api-pagination' | 'finalizing';
+
+export interface ScrapeProgress {
+  phase: ScrapePhase;
+  scrollIteration: number;
+  adsCollected: number;
+  staleScrollCount: number;
+}
+
+export interface ScrapeOptions {
+  /** Aborting closes the browser and ends the scrape with a failed result */
+  signal?: AbortSignal;
+  onProgress?: (progress: ScrapeProgress) => void;
+  /** Called with each batch of ads the first time they are seen */
+  onAds?: (ads: ScrapedAd[]) => void;
+  /** Called with every diagnostics entry as it is recorded */
+  onDiagnostic?: (diagnostic: Record<string, unknown>) => void;
+  /** UI locale the Ad Library is rendered and parsed in; defaults to en-US */
+  locale?: ScrapeLocale;
+  /** Records the run into a fixture directory, or replays one with no network (see fixtures.ts) */
+  fixture?: ScrapeFixture;
+  /** Origin to load the Ad Library from instead of AD_LIBRARY_BASE_URL, e.g. a local simulator */
+  baseUrl?: string;
+  /** Carries on from where an earlier run stopped, paging GraphQL instead of scrolling from the top */
+  continuation?: ScrapeContinuation;
+}
+
+/** What a continuation token holds once decoded */
+export interface ScrapeContinuation {
+  v: 1;
+  /** What the token continues; a later call must ask for the same */
+  target: ScrapeTarget;
+  filters: ScrapeFilters;
+  /** Cursor of the first results page not fully returned yet; null for the very first page */
+  cursor: string | null;
+  /** Request body of the ad query Facebook sent, replayed with each cursor; tokens carry it without lsd and fb_dtsg */
+  template: string;
+  /** Library IDs returned by this and earlier runs */
+  seen: string[];
+}
+
+export interface ScrapeFixture {
+  mode: 'record' | 'replay';
+  dir: string;
+}
+
+export interface AdFieldChange {
+  field: 'assets' | 'bodyText' | 'headline' | 'linkCaption' | 'ctaText' | 'landingUrl';
+  before: unknown;
+  after: unknown;
+}
+
+export interface RunDiffSummary {
+  newAds: number;
+  stoppedAds: number;
+  impressionChanges: number;
+  creativeChanges: number;
+  unchanged: number;
+}
+
+/** What changed for a page between two runs, from `baseRunId` to `runId`. */
+export interface RunDiff {
+  baseRunId: string;
+  runId: string;
+  summary: RunDiffSummary;
+  newAds: ScrapedAd[];
+  /**
+   * `disappeared`: no longer in the results, reported only when both runs got to the end of them;
+   * `ended`: still listed but has gained an end date
+   */
+  stoppedAds: { ad: ScrapedAd; reason: 'disappeared' | 'ended' }[];
+  impressionChanges: { libraryId: string; before: string | null; after: string | null }[];
+  creativeChanges: { libraryId: string; changes: AdFieldChange[] }[];
+}
@@ -0,0 +1,57 @@
+import { applyFilterParams, DEFAULT_FILTERS } from './filters';
+import type { ScrapeFilters, ScrapeTarget } from './types';
+
+// --- URL helpers ---
+
+/**
+ * Unwraps Facebook's outbound link shim (l.facebook.com/l.php?u=...) to the
+ * real destination. Anything that isn't a shim URL is returned unchanged.
+ */
+export function decodeFacebookRedirect(url: string | null): string | null {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    if (/^(l|lm)\.facebook\.com$/.test(parsed.hostname) && parsed.pathname.startsWith('/l.php')) {
+      return parsed.searchParams.get('u') || url;
+    }
+  } catch {
+    // Not an absolute URL
+  }
+  return url;
+}
+
+// --- Ad Library URLs ---
+
+/** Origin the Ad Library is loaded from; point it at the simulator (tests/simulator.ts) to scrape offline */
+export const AD_LIBRARY_BASE_URL = (process.env.AD_LIBRARY_BASE_URL || 'https://www.facebook.com').replace(/\/$/, '');
+
+export function buildUrl(facebookPageId: string, filters: ScrapeFilters = DEFAULT_FILTERS, baseUrl = AD_LIBRARY_BASE_URL): string {
+  const params = new URLSearchParams({
+    is_targeted_country: 'false',
+    search_type: 'page',
+    view_all_page_id: facebookPageId,
+  });
+  applyFilterParams(params, filters);
+  return `${baseUrl.replace(/\/$/, '')}/ads/library/?${params.toString()}`;
+}
+
+export function buildKeywordUrl(
+  query: string,
+  exactPhrase: boolean,
+  filters: ScrapeFilters = DEFAULT_FILTERS,
+  baseUrl = AD_LIBRARY_BASE_URL,
+): string {
+  const params = new URLSearchParams({
+    is_targeted_country: 'false',
+    q: exactPhrase ? `"${query}"` : query,
+    search_type: exactPhrase ? 'keyword_exact_phrase' : 'keyword_unordered',
+  });
+  applyFilterParams(params, filters);
+  return `${baseUrl.replace(/\/$/, '')}/ads/library/?${params.toString()}`;
+}
+
+export function buildTargetUrl(target: ScrapeTarget, filters: ScrapeFilters = DEFAULT_FILTERS, baseUrl = AD_LIBRARY_BASE_URL): string {
+  return target.kind === 'page'
+    ? buildUrl(target.facebookPageId, filters, baseUrl)
+    : buildKeywordUrl(target.query, target.exactPhrase, filters, baseUrl);
+}
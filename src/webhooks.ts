@@ -0,0 +1,177 @@
+import { createHmac, randomBytes } from 'crypto';
+import {
+  createWebhook,
+  dueDeliveries,
+  enqueueDeliveries,
+  enqueueDelivery,
+  getWebhook,
+  getWebhookSecret,
+  recordDeliveryAttempt,
+  requeueDelivery,
+  type Webhook,
+  type WebhookDelivery,
+} from './store';
+
+// --- Webhooks ---
+// Pushes job and ad-change events to registered URLs so pipelines can stop
+// polling. Deliveries are queued in the store, signed, and retried with
+// exponential backoff until they succeed or land on the dead-letter list.
+
+export const WEBHOOK_EVENTS = ['job.completed', 'job.failed', 'ads.changed'] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 6;
+const WEBHOOK_RETRY_BASE_MS = Number(process.env.WEBHOOK_RETRY_BASE_MS) || 30_000;
+const WEBHOOK_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS) || 10_000;
+const WEBHOOK_TICK_MS = Number(process.env.WEBHOOK_TICK_MS) || 5_000;
+
+/**
+ * Validates a webhook registration body. Throws with a caller-facing message
+ * on invalid input.
+ */
+export function parseWebhookInput(input: unknown): { url: string; events: WebhookEvent[]; secret: string | null } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) throw new Error('Body must be an object');
+  const { url, events, secret } = input as Record<string, unknown>;
+
+  if (typeof url !== 'string' || !/^https?:\/\//i.test(url)) throw new Error('url must be an http(s) URL');
+  try {
+    new URL(url);
+  } catch {
+    throw new Error('url must be an http(s) URL');
+  }
+
+  const list = events === undefined ? [...WEBHOOK_EVENTS] : events;
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new Error(`events must be a non-empty list of: ${WEBHOOK_EVENTS.join(', ')}`);
+  }
+  for (const event of list) {
+    if (!WEBHOOK_EVENTS.includes(event as WebhookEvent)) {
+      throw new Error(`events must be a non-empty list of: ${WEBHOOK_EVENTS.join(', ')}`);
+    }
+  }
+
+  if (secret !== undefined && (typeof secret !== 'string' || secret.length < 16)) {
+    throw new Error('secret must be a string of at least 16 characters');
+  }
+
+  return { url, events: [...new Set(list as WebhookEvent[])], secret: (secret as string | undefined) ?? null };
+}
+
+/** Registers a webhook, generating a secret when the caller didn't supply one. */
+export function registerWebhook(input: ReturnType<typeof parseWebhookInput>): Webhook {
+  return createWebhook(input.url, input.events, input.secret ?? randomBytes(32).toString('hex'));
+}
+
+/**
+ * Hex HMAC-SHA256 over `<timestamp>.<body>`. Receivers recompute it from the
+ * X-Webhook-Timestamp header and the raw body, and should reject stale timestamps.
+ */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/** Queues `event` for every subscribed webhook. Never throws: a broken hook must not fail a scrape. */
+export function emitEvent(event: WebhookEvent, data: unknown): void {
+  try {
+    const deliveries = enqueueDeliveries(event, data);
+    if (deliveries.length > 0) kick();
+  } catch (err) {
+    console.error(`[webhooks] Failed to queue ${event}: ${err}`);
+  }
+}
+
+/** Sends a `ping` to one webhook, whatever it subscribes to, to check the receiver end to end. */
+export function pingWebhook(webhookId: string): WebhookDelivery {
+  const delivery = enqueueDelivery(webhookId, 'ping', { webhookId });
+  kick();
+  return delivery;
+}
+
+/** Resets a delivery (typically a dead one) and sends it again. */
+export function redeliver(deliveryId: string): WebhookDelivery | null {
+  const delivery = requeueDelivery(deliveryId);
+  if (delivery) kick();
+  return delivery;
+}
+
+// --- Delivery ---
+
+function retryDelayMs(attempt: number): number {
+  return WEBHOOK_RETRY_BASE_MS * 2 ** (attempt - 1);
+}
+
+async function attempt(delivery: WebhookDelivery): Promise<void> {
+  const target = getWebhook(delivery.webhookId);
+  const secret = getWebhookSecret(delivery.webhookId);
+  if (!target || secret === null) return;
+
+  const body = JSON.stringify({ id: delivery.id, event: delivery.event, createdAt: delivery.createdAt, data: delivery.payload });
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const attemptNumber = delivery.attempts + 1;
+
+  let statusCode: number | null = null;
+  let error: string | null = null;
+  try {
+    const response = await fetch(target.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ad-library-scraper-webhooks',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': `sha256=${signPayload(secret, timestamp, body)}`,
+      },
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    statusCode = response.status;
+    if (!response.ok) error = `Receiver responded with HTTP ${response.status}`;
+  } catch (err) {
+    error = String(err);
+  }
+
+  if (!error) {
+    recordDeliveryAttempt(delivery.id, { ok: true, statusCode, error: null, nextAttemptAt: null });
+    console.log(`[webhooks] Delivered ${delivery.event} ${delivery.id} to ${target.url}`);
+    return;
+  }
+
+  const retry = attemptNumber < WEBHOOK_MAX_ATTEMPTS;
+  const nextAttemptAt = retry ? new Date(Date.now() + retryDelayMs(attemptNumber)).toISOString() : null;
+  recordDeliveryAttempt(delivery.id, { ok: false, statusCode, error, nextAttemptAt });
+  console.warn(
+    `[webhooks] ${delivery.event} ${delivery.id} attempt ${attemptNumber} failed: ${error}` +
+      (retry ? `, retrying at ${nextAttemptAt}` : ', moved to dead letters'),
+  );
+}
+
+let timer: NodeJS.Timeout | null = null;
+let delivering = false;
+
+async function tick(): Promise<void> {
+  if (delivering) return;
+  delivering = true;
+  try {
+    for (;;) {
+      const due = dueDeliveries(10);
+      if (due.length === 0) break;
+      for (const delivery of due) await attempt(delivery);
+    }
+  } catch (err) {
+    console.error(`[webhooks] Delivery loop failed: ${err}`);
+  } finally {
+    delivering = false;
+  }
+}
+
+function kick(): void {
+  setImmediate(() => void tick());
+}
+
+export function startWebhookWorker(): void {
+  if (timer) return;
+  timer = setInterval(() => void tick(), WEBHOOK_TICK_MS);
+  timer.unref();
+  kick();
+}
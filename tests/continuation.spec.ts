@@ -0,0 +1,36 @@
+import { expect, test } from '@playwright/test';
+import { decodeContinuation, encodeContinuation } from '../src/continuation';
+import { parseScrapeFilters } from '../src/filters';
+import type { ScrapeContinuation } from '../src/types';
+
+// Unit tests for continuation tokens; no browser involved.
+
+const continuation: ScrapeContinuation = {
+  v: 1,
+  target: { kind: 'page', facebookPageId: '123456789' },
+  filters: parseScrapeFilters(undefined),
+  cursor: 'AQHR-cursor',
+  template: 'av=0&__user=0&lsd=AVq-lsd-token&fb_dtsg=NAcN-dtsg-token&doc_id=7654321098765432&variables=%7B%7D',
+  seen: ['1200000000000000', '1200000000000001'],
+};
+
+test('round-trips without the session tokens', () => {
+  const decoded = decodeContinuation(encodeContinuation(continuation));
+
+  expect(decoded).toEqual({ ...continuation, template: 'av=0&__user=0&doc_id=7654321098765432&variables=%7B%7D' });
+});
+
+test('rejects tokens that were tampered with or not signed', () => {
+  const [payload, signature] = encodeContinuation(continuation).split('.');
+  const forged = encodeContinuation({ ...continuation, template: 'doc_id=1' }).split('.')[0];
+
+  for (const token of [payload, `${forged}.${signature}`, `${payload}.${signature}x`, `${payload}.${signature}.${signature}`, '']) {
+    expect(() => decodeContinuation(token)).toThrow('continuation is not a valid token');
+  }
+});
+
+test('rejects signed tokens whose seen IDs are not strings', () => {
+  const token = encodeContinuation({ ...continuation, seen: [1200000000000000] as unknown as string[] });
+
+  expect(() => decodeContinuation(token)).toThrow('continuation is not a valid token');
+});
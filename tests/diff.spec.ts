@@ -0,0 +1,49 @@
+import { expect, test } from '@playwright/test';
+import { diffAds } from '../src/diff';
+import { mapAdArchiveNode } from '../src/graphql';
+import type { ScrapedAd } from '../src/types';
+
+// Unit tests for run diffs; no browser involved.
+
+function ad(id: string, overrides: Partial<ScrapedAd> = {}): ScrapedAd {
+  const mapped = mapAdArchiveNode({
+    ad_archive_id: id,
+    start_date: 1_736_121_600,
+    is_active: true,
+    page_id: '123456789',
+    impressions_with_index: { impressions_text: '1K-5K' },
+    snapshot: { body: { text: `Ad ${id}` }, images: [{ original_image_url: `https://cdn.example.com/${id}.jpg` }] },
+  });
+  if (!('ad' in mapped)) throw new Error(`unmappable test ad ${id}`);
+  return { ...mapped.ad, ...overrides };
+}
+
+test('reports ads missing from the later run as disappeared only when both runs are complete', () => {
+  const before = [ad('1001'), ad('1002')];
+  const after = [ad('1001'), ad('1003')];
+
+  const complete = diffAds('base', 'run', before, after);
+  expect(complete.stoppedAds).toEqual([{ ad: before[1], reason: 'disappeared' }]);
+  expect(complete.newAds.map(a => a.libraryId)).toEqual(['1003']);
+
+  const limited = diffAds('base', 'run', before, after, false);
+  expect(limited.stoppedAds).toEqual([]);
+  expect(limited.summary).toMatchObject({ newAds: 1, stoppedAds: 0, unchanged: 1 });
+});
+
+test('still reports ended ads from a limited run', () => {
+  const ended = ad('1001', { endDate: '2025-01-16' });
+
+  expect(diffAds('base', 'run', [ad('1001')], [ended], false).stoppedAds).toEqual([{ ad: ended, reason: 'ended' }]);
+});
+
+test('compares impressions by their bounds, not the localized text', () => {
+  const english = ad('1001');
+  const german = ad('1001', { impressions: '1.000-5.000' });
+  expect(diffAds('base', 'run', [english], [german]).impressionChanges).toEqual([]);
+
+  const grown = ad('1001', { impressions: '5K-10K', impressionBounds: { lower: 5_000, upper: 10_000 } });
+  expect(diffAds('base', 'run', [english], [grown]).impressionChanges).toEqual([
+    { libraryId: '1001', before: '1K-5K', after: '5K-10K' },
+  ]);
+});
@@ -0,0 +1,158 @@
+import { expect, test } from '@playwright/test';
+import { mapAdArchiveNode, parseGraphQLResponse, splitGraphQLPayload, type GraphQLAdArchiveNode } from '../src/graphql';
+
+// Unit tests for the GraphQL response parser; no browser involved.
+
+/** 2025-01-06T00:00:00Z */
+const JAN_6 = 1_736_121_600;
+
+function node(id: string, overrides: Partial<GraphQLAdArchiveNode> = {}): GraphQLAdArchiveNode {
+  return {
+    ad_archive_id: id,
+    start_date: JAN_6,
+    is_active: true,
+    page_id: '123456789',
+    impressions_with_index: { impressions_text: '1K-5K' },
+    snapshot: {
+      page_name: 'Simulated Advertiser',
+      body: { text: `Ad ${id}` },
+      title: 'Headline',
+      cta_text: 'Shop now',
+      link_url: 'https://l.facebook.com/l.php?u=https%3A%2F%2Fshop.example.com%2F',
+      images: [{ original_image_url: `https://cdn.example.com/${id}.jpg` }],
+    },
+    ...overrides,
+  };
+}
+
+function resultsPage(ids: string[], pageInfo: { end_cursor: string | null; has_next_page: boolean }): unknown {
+  return {
+    data: {
+      ad_library_main: {
+        search_results_connection: {
+          edges: ids.map(id => ({ node: { collated_results: [node(id)] } })),
+          page_info: pageInfo,
+        },
+      },
+    },
+  };
+}
+
+test('strips the for (;;); prefix', () => {
+  const body = `for (;;);${JSON.stringify(resultsPage(['1001'], { end_cursor: 'abc', has_next_page: true }))}`;
+
+  const { documents, diagnostics } = splitGraphQLPayload(body);
+  expect(documents).toHaveLength(1);
+  expect(diagnostics).toEqual([]);
+  expect(parseGraphQLResponse(body).ads.map(ad => ad.libraryId)).toEqual(['1001']);
+});
+
+test('reads every streamed document in one body', () => {
+  const body = [
+    `for (;;);${JSON.stringify(resultsPage(['1001', '1002'], { end_cursor: 'next', has_next_page: true }))}`,
+    JSON.stringify({ label: 'deferred', data: { extra: true } }),
+    // Documents aren't always newline separated
+    JSON.stringify(resultsPage(['1002', '1003'], { end_cursor: 'later', has_next_page: false })) + JSON.stringify({ done: true }),
+  ].join('\n');
+
+  const parsed = parseGraphQLResponse(body);
+  expect(parsed.documentCount).toBe(4);
+  // Duplicates across documents are kept once
+  expect(parsed.ads.map(ad => ad.libraryId)).toEqual(['1001', '1002', '1003']);
+});
+
+test('skips malformed and truncated chunks without losing the rest', () => {
+  const good = JSON.stringify(resultsPage(['1001'], { end_cursor: 'abc', has_next_page: true }));
+  const body = [
+    'for (;;);<html>not json</html>',
+    '{"data": {"broken": tru}}',
+    good,
+    '{"data": {"truncated": [1, 2',
+  ].join('\n');
+
+  const { documents, diagnostics } = splitGraphQLPayload(body);
+  expect(documents).toHaveLength(1);
+  expect(diagnostics.map(d => d.label)).toEqual(['graphql-unparseable-chunk', 'graphql-invalid-json', 'graphql-unparseable-chunk']);
+
+  const parsed = parseGraphQLResponse(body);
+  expect(parsed.ads.map(ad => ad.libraryId)).toEqual(['1001']);
+  expect(parsed.nextCursor).toBe('abc');
+});
+
+test('reports the next cursor and whether there is a next page', () => {
+  const more = parseGraphQLResponse(JSON.stringify(resultsPage(['1001'], { end_cursor: 'abc', has_next_page: true })));
+  expect(more).toMatchObject({ nextCursor: 'abc', hasNextPage: true });
+
+  const last = parseGraphQLResponse(JSON.stringify(resultsPage(['1001'], { end_cursor: null, has_next_page: false })));
+  expect(last).toMatchObject({ nextCursor: null, hasNextPage: false });
+
+  const forward = parseGraphQLResponse(JSON.stringify({ data: { forward_cursor: 'fwd', results: [node('1001')] } }));
+  expect(forward).toMatchObject({ nextCursor: 'fwd', hasNextPage: null });
+
+  const empty = parseGraphQLResponse('');
+  expect(empty).toMatchObject({ ads: [], documentCount: 0, nextCursor: null, hasNextPage: null });
+});
+
+test('reports GraphQL errors and malformed ad IDs as diagnostics', () => {
+  const parsed = parseGraphQLResponse(JSON.stringify({
+    errors: [{ message: 'Rate limit exceeded' }],
+    data: { results: [{ ad_archive_id: 'not-a-number' }] },
+  }));
+
+  expect(parsed.ads).toEqual([]);
+  expect(parsed.diagnostics.map(d => d.label)).toEqual(['graphql-errors', 'graphql-malformed-ad-ids', 'graphql-no-ad-nodes']);
+});
+
+test('maps an ad archive node to a ScrapedAd', () => {
+  const mapped = mapAdArchiveNode(node('1001'));
+
+  expect(mapped).toEqual({
+    ad: expect.objectContaining({
+      libraryId: '1001',
+      assetType: 'image',
+      assets: [{ type: 'image', url: 'https://cdn.example.com/1001.jpg', posterUrl: null, title: null, linkUrl: null }],
+      startDate: '2025-01-06',
+      endDate: null,
+      impressions: '1K-5K',
+      bodyText: 'Ad 1001',
+      headline: 'Headline',
+      ctaText: 'Shop now',
+      landingUrl: 'https://shop.example.com/',
+      pageId: '123456789',
+      pageName: 'Simulated Advertiser',
+    }),
+  });
+});
+
+test('takes carousel creative fields from the first card', () => {
+  const mapped = mapAdArchiveNode(node('1001', {
+    snapshot: {
+      cards: [
+        { title: 'Card one', body: 'Card body', link_url: 'https://shop.example.com/1', resized_image_url: 'https://cdn.example.com/c1.jpg' },
+        { title: 'Card two', video_sd_url: 'https://cdn.example.com/c2.mp4', video_preview_image_url: 'https://cdn.example.com/c2.jpg' },
+      ],
+    },
+  }));
+
+  expect('ad' in mapped && mapped.ad).toMatchObject({
+    assetType: 'image',
+    bodyText: 'Card body',
+    headline: 'Card one',
+    landingUrl: 'https://shop.example.com/1',
+    assets: [
+      { type: 'image', url: 'https://cdn.example.com/c1.jpg', title: 'Card one' },
+      { type: 'video', url: 'https://cdn.example.com/c2.mp4', posterUrl: 'https://cdn.example.com/c2.jpg', title: 'Card two' },
+    ],
+  });
+});
+
+test('ended ads carry their end date', () => {
+  const mapped = mapAdArchiveNode(node('1001', { is_active: false, end_date: JAN_6 + 10 * 86_400 }));
+
+  expect('ad' in mapped && mapped.ad).toMatchObject({ startDate: '2025-01-06', endDate: '2025-01-16', activeDays: 11 });
+});
+
+test('nodes without a snapshot or media are not mapped', () => {
+  expect(mapAdArchiveNode(node('1001', { snapshot: null }))).toEqual({ reason: 'missing-snapshot' });
+  expect(mapAdArchiveNode(node('1001', { snapshot: { body: { text: 'No media' } } }))).toEqual({ reason: 'no-media' });
+});
@@ -0,0 +1,118 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { runScrape } from '../src/engine';
+import { resolveLocale } from '../src/locales';
+import type { ScrapedAd, ScrapeFilters, ScrapeResult, ScrapeStrategyName, ScrapeTarget } from '../src/types';
+
+// --- Fixture harness ---
+// Fixtures live in tests/fixtures/<name>/: the files written by the recorder
+// in src/fixtures.ts, plus a manifest of how the run was made and the ads it
+// returned. `npm run record-fixture` creates them; the spec replays them.
+
+export const FIXTURES_DIR = join(__dirname, 'fixtures');
+
+export interface FixtureManifest {
+  name: string;
+  /** `auto` is not recordable: each attempt would overwrite the last one's HAR */
+  strategy: Exclude<ScrapeStrategyName, 'auto'>;
+  target: ScrapeTarget;
+  filters: ScrapeFilters;
+  adLimit: number;
+  /** BCP 47 tag, e.g. "de-DE" */
+  locale: string;
+  /** Origin the run was recorded from when not the live Ad Library, e.g. the simulator; replay requests the same URLs */
+  baseUrl: string | null;
+  recordedAt: string;
+  adCount: number;
+}
+
+export interface DomSnapshot {
+  html: string;
+  url: string;
+  ads: ScrapedAd[];
+}
+
+export interface GraphQLExchange {
+  status: number;
+  request: string;
+  response: string;
+  ads: ScrapedAd[];
+  nextCursor: string | null;
+  hasNextPage: boolean | null;
+}
+
+function readJson<T>(path: string): T {
+  return JSON.parse(readFileSync(path, 'utf8')) as T;
+}
+
+export function fixtureDir(name: string): string {
+  return join(FIXTURES_DIR, name);
+}
+
+export function listFixtures(): FixtureManifest[] {
+  if (!existsSync(FIXTURES_DIR)) return [];
+  return readdirSync(FIXTURES_DIR)
+    .filter(name => existsSync(join(FIXTURES_DIR, name, 'fixture.json')))
+    .sort()
+    .map(name => readJson<FixtureManifest>(join(FIXTURES_DIR, name, 'fixture.json')));
+}
+
+export function expectedAds(name: string): ScrapedAd[] {
+  return readJson(join(fixtureDir(name), 'expected-ads.json'));
+}
+
+/** The JSON files of a fixture subdirectory, in recording order. */
+function recorded(name: string, subdir: string): string[] {
+  const dir = join(fixtureDir(name), subdir);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir).filter(file => file.endsWith('.json')).sort().map(file => join(dir, file));
+}
+
+export function domSnapshots(name: string): DomSnapshot[] {
+  return recorded(name, 'dom').map(path => ({
+    ...readJson<Omit<DomSnapshot, 'html'>>(path),
+    html: readFileSync(path.replace(/\.json$/, '.html'), 'utf8'),
+  }));
+}
+
+export function graphqlExchanges(name: string): GraphQLExchange[] {
+  return recorded(name, 'graphql').map(path => readJson<GraphQLExchange>(path));
+}
+
+/**
+ * Drops what legitimately differs between recording and replay: a running
+ * ad's activeDays counts up to today.
+ */
+export function comparable(ads: ScrapedAd[]): ScrapedAd[] {
+  return ads.map(ad => (ad.endDate === null ? { ...ad, activeDays: null } : ad));
+}
+
+export function replay(manifest: FixtureManifest): Promise<ScrapeResult> {
+  return runScrape(manifest.strategy, manifest.target, manifest.adLimit, manifest.filters, {
+    locale: resolveLocale(manifest.locale),
+    fixture: { mode: 'replay', dir: fixtureDir(manifest.name) },
+    baseUrl: manifest.baseUrl ?? undefined,
+  });
+}
+
+/** Scrapes into a fresh fixture directory, replacing any previous recording of `name`. */
+export async function record(manifest: Omit<FixtureManifest, 'recordedAt' | 'adCount'>): Promise<FixtureManifest> {
+  const dir = fixtureDir(manifest.name);
+  rmSync(dir, { recursive: true, force: true });
+  mkdirSync(dir, { recursive: true });
+
+  const result = await runScrape(manifest.strategy, manifest.target, manifest.adLimit, manifest.filters, {
+    locale: resolveLocale(manifest.locale),
+    fixture: { mode: 'record', dir },
+    baseUrl: manifest.baseUrl ?? undefined,
+  });
+  if (!result.success || result.ads.length === 0) {
+    rmSync(dir, { recursive: true, force: true });
+    throw new Error(`Recording ${manifest.name} failed (${result.status}, ${result.ads.length} ads): ${result.errors.map(e => `${e.code}: ${e.message}`).join('; ')}`);
+  }
+
+  const complete: FixtureManifest = { ...manifest, recordedAt: new Date().toISOString(), adCount: result.ads.length };
+  writeFileSync(join(dir, 'fixture.json'), JSON.stringify(complete, null, 2));
+  writeFileSync(join(dir, 'expected-ads.json'), JSON.stringify(result.ads, null, 2));
+  return complete;
+}
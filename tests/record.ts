@@ -0,0 +1,69 @@
+import { parseArgs } from 'util';
+import { parseScrapeFilters } from '../src/filters';
+import { resolveLocale } from '../src/locales';
+import type { ScrapeTarget } from '../src/types';
+import { record, type FixtureManifest } from './harness';
+import { SIMULATOR_PORT, startSimulator } from './simulator';
+
+// --- Fixture recorder ---
+// Scrapes the live Ad Library once, or with --simulator the local simulator
+// (tests/simulator.ts), and stores the run under tests/fixtures/<name>:
+//
+//   npm run record-fixture -- <name> --page 123456789 [--strategy v3] [--limit 30] [--locale de-DE]
+//   npm run record-fixture -- <name> --query "running shoes" [--exact] [--filters '{"countries":["DE"]}']
+//   npm run record-fixture -- <name> --page 123456789 --simulator
+
+const STRATEGIES: FixtureManifest['strategy'][] = ['v1', 'v2', 'v3'];
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    page: { type: 'string' },
+    query: { type: 'string' },
+    exact: { type: 'boolean', default: false },
+    strategy: { type: 'string', default: 'v3' },
+    limit: { type: 'string', default: '30' },
+    locale: { type: 'string', default: 'en-US' },
+    filters: { type: 'string' },
+    simulator: { type: 'boolean', default: false },
+  },
+});
+
+const [name] = positionals;
+if (!name || !/^[a-z0-9][a-z0-9-]*$/.test(name)) {
+  throw new Error('name must be given, in lowercase letters, digits and dashes');
+}
+if (!values.page === !values.query) throw new Error('give exactly one of --page or --query');
+const strategy = values.strategy as FixtureManifest['strategy'];
+if (!STRATEGIES.includes(strategy)) throw new Error(`strategy must be one of ${STRATEGIES.join(', ')}`);
+
+const target: ScrapeTarget = values.page
+  ? { kind: 'page', facebookPageId: values.page }
+  : { kind: 'keyword', query: values.query!, exactPhrase: values.exact };
+
+async function main(): Promise<void> {
+  const sim = values.simulator ? await startSimulator({}, SIMULATOR_PORT) : null;
+  try {
+    const manifest = await record({
+      name,
+      strategy,
+      target,
+      filters: parseScrapeFilters(values.filters ? JSON.parse(values.filters) : undefined),
+      adLimit: Number(values.limit),
+      locale: resolveLocale(values.locale).tag,
+      baseUrl: sim?.baseUrl ?? null,
+    });
+    console.log(`Recorded ${manifest.adCount} ads into tests/fixtures/${manifest.name}`);
+  } finally {
+    await sim?.close();
+  }
+}
+
+// Exits explicitly: the browser pool keeps its browser open for a next scrape that never comes
+main().then(
+  () => process.exit(0),
+  err => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+);
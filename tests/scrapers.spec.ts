@@ -0,0 +1,54 @@
+import { expect, test } from '@playwright/test';
+import { join } from 'path';
+import { FIXTURE_HAR } from '../src/fixtures';
+import { parseGraphQLResponse } from '../src/graphql';
+import { resolveLocale } from '../src/locales';
+import { extractAdsFromDom } from '../src/page';
+import { comparable, domSnapshots, expectedAds, fixtureDir, graphqlExchanges, listFixtures, replay } from './harness';
+
+// Every recorded fixture is checked three ways, from cheapest to most
+// end-to-end: GraphQL parsing, DOM extraction on each snapshot, and a full
+// replay of the scrape. None of them touch the network.
+
+const fixtures = listFixtures();
+
+test('fixtures are recorded', () => {
+  expect(fixtures.map(manifest => manifest.name), 'no fixtures in tests/fixtures (npm run record-fixture)').not.toEqual([]);
+});
+
+for (const manifest of fixtures) {
+  test.describe(manifest.name, () => {
+    test('GraphQL responses parse to the recorded ads', () => {
+      for (const exchange of graphqlExchanges(manifest.name)) {
+        const parsed = parseGraphQLResponse(exchange.response);
+        expect(comparable(parsed.ads)).toEqual(comparable(exchange.ads));
+        expect(parsed.nextCursor).toEqual(exchange.nextCursor);
+        expect(parsed.hasNextPage).toEqual(exchange.hasNextPage);
+      }
+    });
+
+    test('DOM snapshots extract the recorded ads', async ({ browser }) => {
+      const locale = resolveLocale(manifest.locale);
+      // Scripts stay off so the snapshot is what gets parsed, not what Facebook's JS re-renders it into
+      const context = await browser.newContext({ javaScriptEnabled: false, locale: locale.tag, viewport: { width: 1440, height: 900 } });
+      await context.routeFromHAR(join(fixtureDir(manifest.name), FIXTURE_HAR), { notFound: 'abort' });
+      try {
+        for (const snapshot of domSnapshots(manifest.name)) {
+          const page = await context.newPage();
+          await page.route(snapshot.url, route => route.fulfill({ body: snapshot.html, contentType: 'text/html; charset=utf-8' }));
+          await page.goto(snapshot.url, { waitUntil: 'load' });
+          expect(comparable(await extractAdsFromDom(page, locale))).toEqual(comparable(snapshot.ads));
+          await page.close();
+        }
+      } finally {
+        await context.close();
+      }
+    });
+
+    test('replaying the scrape returns the recorded ads', async () => {
+      const result = await replay(manifest);
+      expect(result.errors).toEqual([]);
+      expect(comparable(result.ads)).toEqual(comparable(expectedAds(manifest.name)));
+    });
+  });
+}
@@ -0,0 +1,153 @@
+import { expect, test } from '@playwright/test';
+import { decodeContinuation } from '../src/continuation';
+import { runScrape } from '../src/engine';
+import { DEFAULT_FILTERS } from '../src/filters';
+import type { ScrapeContinuation, ScrapeResult, ScrapeStrategyName, ScrapeTarget } from '../src/types';
+import { startSimulator, type RunningSimulator, type SimulatorOptions } from './simulator';
+
+// Scrapes the local simulator end to end: real browser, real engine, no
+// Facebook. Each test starts its own simulator so options never leak.
+
+const PAGE: ScrapeTarget = { kind: 'page', facebookPageId: '123456789' };
+
+async function scrapeSimulator(
+  overrides: Partial<SimulatorOptions>,
+  strategy: ScrapeStrategyName,
+  target: ScrapeTarget,
+  adLimit: number,
+): Promise<{ result: ScrapeResult; sim: RunningSimulator }> {
+  const sim = await startSimulator(overrides);
+  try {
+    const result = await runScrape(strategy, target, adLimit, DEFAULT_FILTERS, { baseUrl: sim.baseUrl });
+    return { result, sim };
+  } finally {
+    await sim.close();
+  }
+}
+
+function afterLoad(result: ScrapeResult, strategy: string): Record<string, unknown> | undefined {
+  return result.diagnostics.find(d => d.label === `${strategy}-after-load`);
+}
+
+test('v1 collects ads through infinite scroll', async () => {
+  const { result } = await scrapeSimulator({ adCount: 25 }, 'v1', PAGE, 25);
+
+  expect(result.errors).toEqual([]);
+  expect(result.advertiserName).toBe('Simulated Advertiser');
+  expect(result.ads.map(ad => ad.libraryId)).toEqual(
+    Array.from({ length: 25 }, (_, i) => String(1_200_000_000_000_000 + i)),
+  );
+  expect(result.ads[0]).toMatchObject({
+    assetType: 'image',
+    startDate: '2025-01-06',
+    endDate: null,
+    impressions: '1K-5K',
+    bodyText: 'Simulated ad 1.\nSecond line of copy.',
+    headline: 'Offer number 1',
+    linkCaption: 'shop.example.com',
+    ctaText: 'Shop now',
+    landingUrl: 'https://shop.example.com/offer/1',
+    pageId: '123456789',
+    pageName: 'Simulated Advertiser',
+  });
+  expect(result.ads[2]).toMatchObject({ startDate: '2025-01-04', endDate: '2025-01-14', activeDays: 11 });
+  expect(result.ads[3].assetType).toBe('video');
+  expect(result.ads[4]).toMatchObject({ impressions: null, lowImpressionCount: true });
+});
+
+test('v1 clicks "See more" when scrolling alone loads nothing', async () => {
+  const { result } = await scrapeSimulator({ adCount: 25, loadMore: 'button' }, 'v1', PAGE, 25);
+
+  expect(result.errors).toEqual([]);
+  expect(result.ads).toHaveLength(25);
+});
+
+test('keyword searches span several advertisers', async () => {
+  const { result } = await scrapeSimulator({ adCount: 12 }, 'v1', { kind: 'keyword', query: 'running shoes', exactPhrase: false }, 12);
+
+  expect(result.advertiserName).toBeNull();
+  expect(new Set(result.ads.map(ad => ad.pageId)).size).toBe(3);
+  expect(result.ads[0].bodyText).toContain('for running shoes');
+});
+
+test('v3 pages through GraphQL when infinite scroll stalls', async () => {
+  const { result, sim } = await scrapeSimulator({ adCount: 60, failure: 'stalled-pagination' }, 'v3', PAGE, 50);
+
+  expect(result.errors).toEqual([]);
+  expect(result.ads).toHaveLength(50);
+  expect(new Set(result.ads.map(ad => ad.libraryId)).size).toBe(50);
+  // The page itself loaded one page; the rest came from the engine's own calls
+  expect(sim.stats.graphqlRequests).toBeGreaterThan(1);
+  expect(result.diagnostics.some(d => d.label === 'v3-tokens' && d.hasBaseRequest === true)).toBe(true);
+});
+
+test('reshipped CSS falls back to structural selectors and is flagged as drift', async () => {
+  const { result } = await scrapeSimulator({ adCount: 20, reshippedClasses: true }, 'v1', PAGE, 20);
+
+  expect(result.ads).toHaveLength(20);
+  expect(result.advertiserName).toBe('Simulated Advertiser');
+  expect(result.ads[0]).toMatchObject({ startDate: '2025-01-06', landingUrl: 'https://shop.example.com/offer/1' });
+  expect(result.success).toBe(true);
+  expect(result.errors).toMatchObject([{ code: 'SELECTOR_DRIFT', severity: 'warning', retryable: false }]);
+  expect(afterLoad(result, 'v1')).toMatchObject({
+    selectors: { adCard: 'card-library-id-text', metadata: 'metadata-leaf-spans', advertiserName: 'advertiser-heading', drift: true },
+  });
+});
+
+test('current CSS matches the class-chain selectors', async () => {
+  const { result } = await scrapeSimulator({ adCount: 10 }, 'v1', PAGE, 10);
+
+  expect(result.errors).toEqual([]);
+  expect(afterLoad(result, 'v1')).toMatchObject({
+    selectors: { adCard: 'card-classes', metadata: 'metadata-classes', advertiserName: 'advertiser-classes', drift: false },
+  });
+});
+
+test('continuation tokens page on from where the previous run stopped', async () => {
+  const sim = await startSimulator({ adCount: 45 });
+  const runs: ScrapeResult[] = [];
+  try {
+    let continuation: ScrapeContinuation | undefined;
+    for (let i = 0; i < 3; i++) {
+      const result = await runScrape('v1', PAGE, 15, DEFAULT_FILTERS, { baseUrl: sim.baseUrl, continuation });
+      runs.push(result);
+      continuation = result.continuation ? decodeContinuation(result.continuation) : undefined;
+    }
+  } finally {
+    await sim.close();
+  }
+
+  expect(runs.map(result => result.errors)).toEqual([[], [], []]);
+  expect(runs.flatMap(result => result.ads.map(ad => ad.libraryId))).toEqual(
+    Array.from({ length: 45 }, (_, i) => String(1_200_000_000_000_000 + i)),
+  );
+  // Resumed runs page GraphQL from the token instead of scrolling the page again
+  expect(runs[1].diagnostics.find(d => d.label === 'v1-resume')).toMatchObject({ seen: 15 });
+  expect(runs[2].diagnostics.find(d => d.label === 'v1-resume')).toMatchObject({ seen: 30 });
+  expect(runs[2].ads[0].pageName).toBe('Simulated Advertiser');
+  expect(runs[2].continuation).toBeNull();
+});
+
+for (const [failure, flag, code] of [
+  ['login-wall', 'hasLoginWall', 'LOGIN_WALL'],
+  ['rate-limit', 'hasRateLimit', 'RATE_LIMITED'],
+  ['error', 'hasErrorMessage', 'NAVIGATION_FAILED'],
+] as const) {
+  test(`${failure} pages fail the run with ${code}`, async () => {
+    const { result } = await scrapeSimulator({ failure }, 'v1', PAGE, 10);
+
+    expect(result.ads).toEqual([]);
+    expect(result.status).toBe('failed');
+    expect(result.errors).toMatchObject([{ code, severity: 'fatal', phase: 'hydrating', retryable: true }]);
+    expect(afterLoad(result, 'v1')).toMatchObject({ adContainerCount: 0, [flag]: true });
+  });
+}
+
+test('non-numeric page IDs fail before a browser is launched', async () => {
+  const { result, sim } = await scrapeSimulator({}, 'auto', { kind: 'page', facebookPageId: 'nike' }, 10);
+
+  expect(result.errors).toMatchObject([{ code: 'INVALID_PAGE_ID', severity: 'fatal', phase: 'launching', retryable: false }]);
+  expect(sim.stats.pageLoads).toBe(0);
+  // auto doesn't fall back past an error no strategy can get around
+  expect(result.diagnostics.find(d => d.label === 'auto-attempts')).toMatchObject({ attempts: [{ strategy: 'v3' }] });
+});
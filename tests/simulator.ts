@@ -0,0 +1,378 @@
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+// --- Ad Library simulator ---
+// A local stand-in for the Ad Library, for integration tests that need a page
+// to scrape without reaching Facebook. Cards carry the same DOM structure and
+// class names the scrapers read, more results load by infinite scroll or a
+// "See more" button through /api/graphql/ (cursor-paginated, "for (;;);"
+// prefixed), and each failure mode collectPageDiagnostics detects can be
+// switched on. Point a scrape at it with `baseUrl`, or AD_LIBRARY_BASE_URL:
+//
+//   npm run simulator                       # http://localhost:3100
+//   AD_LIBRARY_BASE_URL=http://localhost:3100 npm run dev
+
+export type SimulatorFailure = 'login-wall' | 'rate-limit' | 'error' | 'stalled-pagination';
+
+export interface SimulatorOptions {
+  /** Ads available per search */
+  adCount: number;
+  /** Ads per server-rendered page and per GraphQL page */
+  pageSize: number;
+  loadMore: 'scroll' | 'button';
+  cookieBanner: boolean;
+  /** Advertiser shown for page searches; keyword searches spread ads over three made-up advertisers */
+  pageName: string;
+  failure: SimulatorFailure | null;
+  /** With 'stalled-pagination': pages the page itself loads before its spinner never goes away */
+  stallAfterPages: number;
+  /** Renders different generated class names, as after Facebook reships its CSS */
+  reshippedClasses: boolean;
+}
+
+/** Port `npm run simulator` and fixture recording use, so recorded URLs stay the same across recordings */
+export const SIMULATOR_PORT = Number(process.env.SIMULATOR_PORT) || 3100;
+
+export const DEFAULT_SIMULATOR_OPTIONS: SimulatorOptions = {
+  adCount: 60,
+  pageSize: 10,
+  loadMore: 'scroll',
+  cookieBanner: true,
+  pageName: 'Simulated Advertiser',
+  failure: null,
+  stallAfterPages: 1,
+  reshippedClasses: false,
+};
+
+export interface SimulatorStats {
+  pageLoads: number;
+  graphqlRequests: number;
+}
+
+export interface RunningSimulator {
+  baseUrl: string;
+  /** Read on every request, so tests may change them between scrapes */
+  options: SimulatorOptions;
+  stats: SimulatorStats;
+  close: () => Promise<void>;
+}
+
+// Class chains copied from the live Ad Library, and made-up ones standing in for a CSS reship
+const CLASSES = {
+  current: {
+    card: 'x1plvlek xryxfnj x1gzqxud x178xt8z x1lun4ml',
+    metadata: 'x8t9es0 xw23nyj xo1l8bm x63nzvj x108nfp6 xq9mrsl x1h4wwuj xeuugli',
+    advertiser: 'x8t9es0 x1ldc4aq x1xlr1w8 x1cgboj8 x4hq6eo xq9mrsl x1yc453h x1h4wwuj xeuugli',
+  },
+  reshipped: {
+    card: 'x9f2k1a x1b7qz0 xk3m8pe',
+    metadata: 'x7p0d2c x1q9w4n',
+    advertiser: 'x5t1h8r x1z0c6v',
+  },
+};
+
+const DOC_ID = '7654321098765432';
+const FIRST_LIBRARY_ID = 1_200_000_000_000_000;
+const KEYWORD_ADVERTISER_BASE_ID = 100_000_000_000;
+/** Newest ad's start date; each further ad started a day earlier */
+const NEWEST_START = Date.UTC(2025, 0, 6) / 1000;
+const DAY_SECONDS = 86_400;
+
+const PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==',
+  'base64',
+);
+
+// --- Data ---
+
+type Search = { kind: 'page'; pageId: string } | { kind: 'keyword'; query: string };
+
+/** The ad_archive node Facebook's GraphQL returns, with only the fields the parser reads. */
+function adNode(search: Search, index: number, options: SimulatorOptions, origin: string): Record<string, unknown> {
+  const id = String(FIRST_LIBRARY_ID + index);
+  const pageId = search.kind === 'page' ? search.pageId : String(KEYWORD_ADVERTISER_BASE_ID + (index % 3));
+  const pageName = search.kind === 'page' ? options.pageName : `Advertiser ${(index % 3) + 1}`;
+  const startDate = NEWEST_START - index * DAY_SECONDS;
+  const ended = index % 3 === 2;
+  const isVideo = index % 4 === 3;
+  const media = isVideo
+    ? { videos: [{ video_hd_url: null, video_sd_url: `${origin}/media/${id}.mp4`, video_preview_image_url: `${origin}/media/${id}-poster.png` }], images: [] }
+    : { images: [{ original_image_url: `${origin}/media/${id}.png`, resized_image_url: null }], videos: [] };
+
+  return {
+    ad_archive_id: id,
+    start_date: startDate,
+    end_date: ended ? startDate + 10 * DAY_SECONDS : null,
+    is_active: !ended,
+    page_id: pageId,
+    page_name: pageName,
+    impressions_with_index: { impressions_text: index % 5 === 4 ? null : '1K-5K', impressions_index: -1 },
+    snapshot: {
+      body: { text: `Simulated ad ${index + 1}${search.kind === 'keyword' ? ` for ${search.query}` : ''}.\nSecond line of copy.` },
+      title: `Offer number ${index + 1}`,
+      caption: 'shop.example.com',
+      cta_text: 'Shop now',
+      link_url: `https://shop.example.com/offer/${index + 1}`,
+      page_id: pageId,
+      page_name: pageName,
+      page_profile_picture_url: `${origin}/media/profile-${pageId}.png`,
+      ...media,
+    },
+  };
+}
+
+function encodeCursor(offset: number): string {
+  return Buffer.from(`offset:${offset}`).toString('base64url');
+}
+
+function decodeCursor(cursor: unknown): number {
+  const m = typeof cursor === 'string' ? Buffer.from(cursor, 'base64url').toString().match(/^offset:(\d+)$/) : null;
+  return m ? Number(m[1]) : 0;
+}
+
+/** One page of results, shaped like the search_results_connection of the real query. */
+function resultsPage(search: Search, offset: number, options: SimulatorOptions, origin: string): Record<string, unknown> {
+  const end = Math.min(options.adCount, offset + options.pageSize);
+  const nodes = [];
+  for (let i = offset; i < end; i++) nodes.push(adNode(search, i, options, origin));
+  return {
+    data: {
+      ad_library_main: {
+        search_results_connection: {
+          count: options.adCount,
+          edges: nodes.map(node => ({ node: { collated_results: [node] } })),
+          page_info: { end_cursor: end < options.adCount ? encodeCursor(end) : null, has_next_page: end < options.adCount },
+        },
+      },
+    },
+  };
+}
+
+// --- Page ---
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, ch => `&#${ch.charCodeAt(0)};`);
+}
+
+/** Keeps "</script>" inside JSON from ending the script element it is embedded in. */
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+const FAILURE_PAGES: Partial<Record<SimulatorFailure, string>> = {
+  'login-wall': `
+    <h2>You must log in to continue.</h2>
+    <form><input name="email" placeholder="Email or phone number"><input name="pass" type="password">
+    <button type="button">Log in</button></form>
+    <a href="#">Create new account</a>`,
+  'rate-limit': `
+    <h2>You're Temporarily Blocked</h2>
+    <p>It looks like you were misusing this feature by going too fast. You've hit a rate limit; try again later.</p>`,
+  error: `
+    <h2>Something went wrong</h2>
+    <p>We're working on getting this fixed as soon as we can.</p>`,
+};
+
+/**
+ * Renders cards from GraphQL nodes, both the ones embedded in the page and
+ * each page loaded afterwards. Runs in the browser, so it is plain JavaScript.
+ */
+const CLIENT_SCRIPT = `
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const config = JSON.parse(document.getElementById('sim-config').textContent);
+const initial = JSON.parse(document.getElementById('sim-initial').textContent).__bbox.result;
+const results = document.getElementById('results');
+const seeMore = document.getElementById('see-more');
+
+const esc = text => String(text).replace(/[&<>"']/g, ch => '&#' + ch.charCodeAt(0) + ';');
+const day = ts => { const d = new Date(ts * 1000); return d.getUTCDate() + ' ' + MONTHS[d.getUTCMonth()] + ' ' + d.getUTCFullYear(); };
+const meta = text => '<span class="' + config.metadataClass + '">' + esc(text) + '</span>';
+
+function card(node) {
+  const s = node.snapshot;
+  const imp = node.impressions_with_index.impressions_text;
+  const media = s.videos.length > 0
+    ? '<video width="400" height="300" src="' + s.videos[0].video_sd_url + '" poster="' + s.videos[0].video_preview_image_url + '"></video>'
+    : '<img width="400" height="300" alt="" src="' + s.images[0].original_image_url + '">';
+  return '<div class="' + config.cardClass + '">'
+    + meta('Library ID: ' + node.ad_archive_id)
+    + meta(node.end_date ? day(node.start_date) + ' - ' + day(node.end_date) : 'Started running on ' + day(node.start_date))
+    + (imp ? meta('Impressions: ' + imp) : '<span>Low impression count</span>')
+    + '<div><a href="https://www.facebook.com/' + node.page_id + '/">'
+    + '<img width="40" height="40" alt="' + esc(node.page_name) + '" src="' + s.page_profile_picture_url + '">'
+    + esc(node.page_name) + '</a><span>Sponsored</span></div>'
+    + '<div style="white-space: pre-wrap">' + esc(s.body.text) + '</div>'
+    + '<a href="https://l.facebook.com/l.php?u=' + encodeURIComponent(s.link_url) + '">' + media
+    + '<div>' + esc(s.caption) + '</div><div>' + esc(s.title) + '</div><div role="button">' + esc(s.cta_text) + '</div></a>'
+    + '</div>';
+}
+
+let connection = initial.data.ad_library_main.search_results_connection;
+let loading = false;
+let pagesLoaded = 0;
+
+function render(conn) {
+  results.insertAdjacentHTML('beforeend', conn.edges.map(e => e.node.collated_results.map(card).join('')).join(''));
+  connection = conn;
+  if (!conn.page_info.has_next_page && seeMore) seeMore.remove();
+}
+
+async function loadMore() {
+  if (loading || !connection.page_info.has_next_page) return;
+  loading = true;
+  // Only present while loading, as the scrapers treat any progressbar as a pending load
+  const spinner = document.createElement('div');
+  spinner.setAttribute('role', 'progressbar');
+  spinner.textContent = 'Loading…';
+  results.after(spinner);
+  if (config.stallAfterPages !== null && pagesLoaded >= config.stallAfterPages) return;
+
+  const variables = Object.assign({}, config.variables, { cursor: connection.page_info.end_cursor, count: config.pageSize });
+  const resp = await fetch('/api/graphql/', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ doc_id: config.docId, variables: JSON.stringify(variables) }),
+  });
+  const doc = JSON.parse((await resp.text()).replace('for (;;);', '').split('\\n')[0]);
+  pagesLoaded++;
+  render(doc.data.ad_library_main.search_results_connection);
+  spinner.remove();
+  loading = false;
+}
+
+render(connection);
+if (config.loadMore === 'scroll') {
+  window.addEventListener('scroll', () => {
+    if (window.innerHeight + window.scrollY >= document.body.scrollHeight - 600) loadMore();
+  });
+} else if (seeMore) {
+  seeMore.addEventListener('click', loadMore);
+}
+`;
+
+function renderPage(search: Search, options: SimulatorOptions, origin: string): string {
+  const failurePage = options.failure ? FAILURE_PAGES[options.failure] : undefined;
+  const cookieBanner = options.cookieBanner
+    ? `<div id="cookies" style="position:fixed;bottom:0;left:0;right:0;background:#fff;padding:16px">
+        Allow the use of cookies from Meta on this browser?
+        <button type="button" onclick="document.getElementById('cookies').remove()">Allow all cookies</button>
+      </div>`
+    : '';
+
+  let body: string;
+  if (failurePage) {
+    body = failurePage;
+  } else {
+    const classes = options.reshippedClasses ? CLASSES.reshipped : CLASSES.current;
+    const config = {
+      cardClass: classes.card,
+      metadataClass: classes.metadata,
+      docId: DOC_ID,
+      pageSize: options.pageSize,
+      loadMore: options.loadMore,
+      stallAfterPages: options.failure === 'stalled-pagination' ? options.stallAfterPages : null,
+      variables: search.kind === 'page'
+        ? { viewAllPageID: search.pageId, activeStatus: 'all', countries: ['ALL'] }
+        : { queryString: search.query, activeStatus: 'all', countries: ['ALL'] },
+    };
+    const header = search.kind === 'page' ? `<div class="${classes.advertiser}" role="heading" aria-level="1">${escapeHtml(options.pageName)}</div>` : '';
+    body = `
+      <div role="main">
+        ${header}
+        <div>~${options.adCount} results</div>
+        <div id="results"></div>
+        ${options.loadMore === 'button' ? '<button type="button" id="see-more">See more</button>' : ''}
+      </div>
+      <script type="application/json" id="sim-config">${scriptJson(config)}</script>
+      <script type="application/json" id="sim-initial">${scriptJson({ __bbox: { result: resultsPage(search, 0, options, origin) } })}</script>
+      <script>${CLIENT_SCRIPT}</script>`;
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><title>Ad Library</title></head>
+<body style="margin:0 auto;max-width:1200px;font-family:sans-serif">
+${body}
+${cookieBanner}
+</body>
+</html>`;
+}
+
+// --- Server ---
+
+/** Media URLs are absolute, like fbcdn ones, so archiving them works too */
+function origin(req: express.Request): string {
+  return `${req.protocol}://${req.get('host')}`;
+}
+
+export function createSimulatorApp(options: SimulatorOptions, stats: SimulatorStats): express.Express {
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get('/ads/library/', (req, res) => {
+    stats.pageLoads++;
+    const pageId = typeof req.query.view_all_page_id === 'string' ? req.query.view_all_page_id : '';
+    const query = typeof req.query.q === 'string' ? req.query.q.replace(/^"|"$/g, '') : '';
+    const search: Search = pageId ? { kind: 'page', pageId } : { kind: 'keyword', query };
+    res.type('html').send(renderPage(search, options, origin(req)));
+  });
+
+  app.post('/api/graphql/', (req, res) => {
+    stats.graphqlRequests++;
+    let variables: Record<string, unknown>;
+    try {
+      variables = JSON.parse(String(req.body.variables ?? ''));
+    } catch {
+      res.type('application/json').send(`for (;;);${JSON.stringify({ errors: [{ message: 'variables must be JSON' }] })}`);
+      return;
+    }
+    if (options.failure === 'rate-limit') {
+      res.type('application/json').send(`for (;;);${JSON.stringify({ errors: [{ message: 'Rate limit exceeded', code: 1675004 }] })}`);
+      return;
+    }
+
+    const search: Search = typeof variables.viewAllPageID === 'string'
+      ? { kind: 'page', pageId: variables.viewAllPageID }
+      : { kind: 'keyword', query: String(variables.queryString ?? '') };
+    // Deferred fragments arrive as further documents in the same body, as on the live site
+    const deferred = { label: 'AdLibrarySearchPaginationQuery$defer$page_info', data: {}, extensions: { is_final: true } };
+    res.type('application/json').send(
+      `for (;;);${JSON.stringify(resultsPage(search, decodeCursor(variables.cursor), options, origin(req)))}\n${JSON.stringify(deferred)}`,
+    );
+  });
+
+  // Every creative and profile picture is the same pixel; videos are never played
+  app.get('/media/:file', (req, res) => {
+    if (req.params.file.endsWith('.png')) res.type('png').send(PIXEL_PNG);
+    else res.status(404).end();
+  });
+
+  return app;
+}
+
+/** Starts the simulator on `port` (0 picks a free one). */
+export function startSimulator(overrides: Partial<SimulatorOptions> = {}, port = 0): Promise<RunningSimulator> {
+  const options = { ...DEFAULT_SIMULATOR_OPTIONS, ...overrides };
+  const stats: SimulatorStats = { pageLoads: 0, graphqlRequests: 0 };
+  const app = createSimulatorApp(options, stats);
+
+  return new Promise((resolve, reject) => {
+    const server: Server = app.listen(port, '127.0.0.1', () => {
+      const { port: boundPort } = server.address() as AddressInfo;
+      resolve({
+        baseUrl: `http://127.0.0.1:${boundPort}`,
+        options,
+        stats,
+        close: () => new Promise<void>((done, fail) => server.close(err => (err ? fail(err) : done()))),
+      });
+    });
+    server.on('error', reject);
+  });
+}
+
+if (require.main === module) {
+  startSimulator({}, SIMULATOR_PORT).then(sim => {
+    console.log(`Ad Library simulator running at ${sim.baseUrl}/ads/library/?view_all_page_id=123456789`);
+  });
+}
@@ -0,0 +1,14 @@
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// The store and the webhook worker read their settings when first loaded, so
+// webhooks.spec.ts imports this before either: a throwaway database (the
+// store creates its directory on first use), and retries fast enough to run
+// through in a test.
+
+export const WEBHOOK_DATA_DIR = join(tmpdir(), `webhooks-spec-${randomUUID()}`);
+process.env.DB_PATH = join(WEBHOOK_DATA_DIR, 'scraper.db');
+process.env.WEBHOOK_MAX_ATTEMPTS = '3';
+process.env.WEBHOOK_RETRY_BASE_MS = '50';
+process.env.WEBHOOK_TICK_MS = '50';
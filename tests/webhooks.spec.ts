@@ -0,0 +1,106 @@
+// Must come first: points the store at a throwaway database before it loads
+import { WEBHOOK_DATA_DIR } from './webhook-env';
+import { expect, test } from '@playwright/test';
+import { createHmac } from 'crypto';
+import { rmSync } from 'fs';
+import { createServer, type IncomingHttpHeaders } from 'http';
+import type { AddressInfo } from 'net';
+import { getDelivery, listDeliveries, type WebhookDelivery } from '../src/store';
+import { parseWebhookInput, pingWebhook, registerWebhook, startWebhookWorker } from '../src/webhooks';
+
+// Delivers webhooks to a local HTTP receiver; no browser involved.
+
+const SECRET = 'receiver-shared-secret-0123456789';
+
+test.beforeAll(() => {
+  startWebhookWorker();
+});
+
+test.afterAll(() => {
+  rmSync(WEBHOOK_DATA_DIR, { recursive: true, force: true });
+});
+
+interface Receiver {
+  url: string;
+  requests: { headers: IncomingHttpHeaders; body: string }[];
+  close: () => Promise<void>;
+}
+
+/** Answers the nth request with `statuses[n]`, and 200 once they run out. */
+async function startReceiver(statuses: number[] = []): Promise<Receiver> {
+  const requests: Receiver['requests'] = [];
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body: Buffer.concat(chunks).toString('utf8') });
+      res.writeHead(statuses[requests.length - 1] ?? 200).end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/hook`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+function register(receiver: Receiver): string {
+  return registerWebhook(parseWebhookInput({ url: receiver.url, secret: SECRET })).id;
+}
+
+async function settled(deliveryId: string): Promise<WebhookDelivery> {
+  await expect.poll(() => getDelivery(deliveryId)?.status, { timeout: 10_000 }).not.toBe('pending');
+  return getDelivery(deliveryId)!;
+}
+
+test('signs each delivery with an HMAC over the timestamp and body', async () => {
+  const receiver = await startReceiver();
+  try {
+    const delivery = pingWebhook(register(receiver));
+
+    expect(await settled(delivery.id)).toMatchObject({ status: 'delivered', attempts: 1, lastStatusCode: 200 });
+    const [{ headers, body }] = receiver.requests;
+    const timestamp = String(headers['x-webhook-timestamp']);
+    const expected = createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex');
+    expect(headers['x-webhook-signature']).toBe(`sha256=${expected}`);
+    expect(headers['x-webhook-id']).toBe(delivery.id);
+    expect(headers['x-webhook-event']).toBe('ping');
+    expect(JSON.parse(body)).toMatchObject({ id: delivery.id, event: 'ping', data: { webhookId: delivery.webhookId } });
+  } finally {
+    await receiver.close();
+  }
+});
+
+test('retries a delivery the receiver answered with a 500', async () => {
+  const receiver = await startReceiver([500]);
+  try {
+    const delivery = pingWebhook(register(receiver));
+
+    expect(await settled(delivery.id)).toMatchObject({ status: 'delivered', attempts: 2, lastStatusCode: 200 });
+    expect(receiver.requests.map(r => r.headers['x-webhook-id'])).toEqual([delivery.id, delivery.id]);
+  } finally {
+    await receiver.close();
+  }
+});
+
+test('moves a delivery to the dead letters after the last attempt', async () => {
+  const receiver = await startReceiver([500, 500, 500]);
+  try {
+    const webhookId = register(receiver);
+    const delivery = pingWebhook(webhookId);
+
+    expect(await settled(delivery.id)).toMatchObject({
+      status: 'dead',
+      attempts: 3,
+      nextAttemptAt: null,
+      lastStatusCode: 500,
+      lastError: 'Receiver responded with HTTP 500',
+    });
+    expect(receiver.requests).toHaveLength(3);
+    expect(listDeliveries({ webhookId, status: 'dead' }).map(d => d.id)).toEqual([delivery.id]);
+  } finally {
+    await receiver.close();
+  }
+});